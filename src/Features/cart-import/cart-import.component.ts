@@ -0,0 +1,96 @@
+import { Component, DestroyRef, OnInit, inject } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router, RouterModule } from '@angular/router';
+import { CartService } from '../../core/services/cart.service';
+import { CatalogService } from '../../core/services/catalog.service';
+import { ToastService } from '../../core/services/toast.service';
+import { PricePipe } from '../../shared/pipes/price-pipe';
+import { ImportLine, RejectedLine, SharedCart, decodeSharedCart, resolveSharedCart } from '../../utils/cart-share';
+import { formatSelectedOptions } from '../../utils/cart-helpers';
+
+/**
+ * CartImportComponent - opens a shared cart link (/cart/import?c=token)
+ * Checks the shared lines against the catalog and lets the shopper
+ * replace their cart with them or merge them in.
+ */
+@Component({
+  selector: 'app-cart-import',
+  standalone: true,
+  imports: [CommonModule, RouterModule, PricePipe],
+  templateUrl: './cart-import.component.html',
+  styleUrls: ['./cart-import.component.css']
+})
+export class CartImportComponent implements OnInit {
+
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private readonly cartService = inject(CartService);
+  private readonly catalog = inject(CatalogService);
+  private readonly toastService = inject(ToastService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  isLoading = true;
+  error = '';
+  lines: ImportLine[] = [];
+  rejected: RejectedLine[] = [];
+  codes: string[] = [];
+  hasExistingCart = false;
+
+  readonly rejectionText: Record<RejectedLine['reason'], string> = {
+    not_found: 'no longer sold',
+    invalid_options: 'that option is no longer available',
+    out_of_stock: 'out of stock'
+  };
+
+  getOptionsText = formatSelectedOptions;
+
+  ngOnInit(): void {
+    const shared = decodeSharedCart(this.route.snapshot.queryParamMap.get('c') ?? '');
+    if (!shared) {
+      this.fail('This cart link is invalid or incomplete.');
+      return;
+    }
+
+    this.hasExistingCart = this.cartService.getCartItems().length > 0;
+    this.codes = shared.codes;
+    this.loadCatalog(shared);
+  }
+
+  /**
+   * Add the shared lines to the cart, then apply the shared codes
+   */
+  import(mode: 'replace' | 'merge'): void {
+    const added = this.cartService.importCart(this.lines, mode);
+
+    const failedCodes = this.codes.filter(code => {
+      const result = this.cartService.applyDiscount(code);
+      return !result.success && result.reason !== 'already_applied';
+    });
+    if (failedCodes.length) {
+      this.toastService.warning(`Code ${failedCodes.join(', ')} could not be applied`);
+    }
+
+    this.toastService.success(`${added} item(s) added from the shared cart`);
+    this.router.navigate(['/cart']);
+  }
+
+  private loadCatalog(shared: SharedCart): void {
+    this.catalog.loadProducts(true)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: catalog => {
+          const result = resolveSharedCart(shared, catalog);
+          this.lines = result.lines;
+          this.rejected = result.rejected;
+          this.isLoading = false;
+        },
+        error: () => this.fail('We could not check this cart right now. Please try again.')
+      });
+  }
+
+  private fail(message: string): void {
+    this.error = message;
+    this.isLoading = false;
+  }
+}
@@ -5,13 +5,19 @@ import { RouterModule } from '@angular/router';
 import { FormsModule } from '@angular/forms';
 import { Subject, Observable } from 'rxjs';
 import { takeUntil } from 'rxjs/operators';
-import { CartItem, CartService, CartState, Discount } from '../../core/services/cart.service';
+import { CartHistory, CartItem, CartService, CartState } from '../../core/services/cart.service';
+import { Discount } from '../../core/model/pricing';
 import { ToastService } from '../../core/services/toast.service';
 import { Router } from '@angular/router';
 import { CheckoutService } from '../../core/services/checkout.service';
 import { CartItemComponent } from '../../shared/components/cart-item/cart-item.component';
-import { formatPrice, getAmountUntilFreeShipping, qualifiesForFreeShipping } from '../../utils/cart-helpers';
+import { PricePipe } from '../../shared/pipes/price-pipe';
+import { formatSelectedOptions, getAmountUntilFreeShipping, qualifiesForFreeShipping } from '../../utils/cart-helpers';
 import { fadeAnimation, slideZoomAnimation } from '../../shared/animations/cart-animations';
+import { COUNTRIES } from '../../core/data/countries';
+import { ShippingMethodId } from '../../core/model/shipping';
+import { CartChange, summarizeCartChanges } from '../../utils/cart-revalidation';
+import { AnalyticsService } from '../../core/services/analytics.service';
 
 /**
  * CartComponent - Shopping cart page
@@ -21,7 +27,7 @@ import { fadeAnimation, slideZoomAnimation } from '../../shared/animations/cart-
 @Component({
   selector: 'app-cart',
   standalone: true,
-  imports: [CommonModule, RouterModule, FormsModule, CartItemComponent],
+  imports: [CommonModule, RouterModule, FormsModule, CartItemComponent, PricePipe],
   templateUrl: './cart.component.html',
   styleUrls: ['./cart.component.css'],
   animations: [fadeAnimation, slideZoomAnimation]
@@ -29,14 +35,26 @@ import { fadeAnimation, slideZoomAnimation } from '../../shared/animations/cart-
 export class CartComponent implements OnInit, OnDestroy {
   // Cart data
   cartItems: CartItem[] = [];
-  cartState: CartState = this.getEmptyState();
+  cartState: CartState;
   cartState$: Observable<CartState>;
 
   // Discount form
   discountCode: string = '';
-  appliedDiscount: Discount | null = null;
+  appliedDiscounts: Discount[] = [];
   discountError: string = '';
 
+  // Lines parked for later (not part of the totals)
+  savedItems: CartItem[] = [];
+
+  // Price/availability changes the shopper must acknowledge before checkout
+  cartChanges: CartChange[] = [];
+
+  // Undo / redo of removals, clears, quantity and discount changes
+  history$: Observable<CartHistory>;
+
+  // Shipping destination (drives tax)
+  countries = COUNTRIES;
+
   // UI states
   isLoadingCheckout = false;
 
@@ -47,9 +65,12 @@ export class CartComponent implements OnInit, OnDestroy {
     private toastService: ToastService
     ,
     private router: Router,
-    private checkoutService: CheckoutService
+    private checkoutService: CheckoutService,
+    private analytics: AnalyticsService
   ) {
+    this.cartState = this.cartService.getCartState();
     this.cartState$ = this.cartService.getCartState$();
+    this.history$ = this.cartService.getHistory$();
   }
 
   ngOnInit(): void {
@@ -59,35 +80,85 @@ export class CartComponent implements OnInit, OnDestroy {
       .subscribe((state: CartState) => {
         this.cartState = state;
         this.cartItems = state.items;
-        this.appliedDiscount = state.discount;
+        this.appliedDiscounts = state.discounts;
       });
+
+    this.cartService.getSavedItems$()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(items => this.savedItems = items);
+
+    this.cartService.getCartChanges$()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(changes => this.cartChanges = changes);
+
+    // Prices may have changed since the items were added
+    this.cartService.revalidateCart()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(changes => this.notifyChanges(changes));
   }
 
   /**
    * Handle quantity increase from child component
    */
-  onIncreaseQuantity(productId: number): void {
-    this.cartService.increaseQuantity(productId);
+  onIncreaseQuantity(lineKey: string): void {
+    this.cartService.increaseQuantity(lineKey);
   }
 
   /**
    * Handle quantity decrease from child component
    */
-  onDecreaseQuantity(productId: number): void {
-    this.cartService.decreaseQuantity(productId);
+  onDecreaseQuantity(lineKey: string): void {
+    this.cartService.decreaseQuantity(lineKey);
   }
 
   /**
    * Handle item removal from child component
    */
-  onRemoveItem(productId: number): void {
-    const item = this.cartItems.find(i => i.id === productId);
+  onRemoveItem(lineKey: string): void {
+    const item = this.cartItems.find(i => i.key === lineKey);
     if (item) {
-      this.cartService.removeFromCart(productId);
-      this.toastService.show(`${item.title} removed from cart`, 'info', 2000);
+      const commandId = this.cartService.removeFromCart(lineKey);
+      this.showUndo(`${item.title} removed from cart`, 'info', commandId);
     }
   }
 
+  /**
+   * Park a line in the saved-for-later list
+   */
+  onSaveForLater(lineKey: string): void {
+    const item = this.cartItems.find(i => i.key === lineKey);
+    if (item) {
+      this.cartService.moveToSaved(lineKey);
+      this.toastService.show(`${item.title} saved for later`, 'info', 2000);
+    }
+  }
+
+  /**
+   * Move a saved line back into the cart
+   */
+  onMoveToCart(lineKey: string): void {
+    const item = this.savedItems.find(i => i.key === lineKey);
+    if (!item) return;
+
+    if (this.cartService.moveToCart(lineKey) > 0) {
+      this.toastService.show(`${item.title} moved to cart`, 'success', 2000);
+    } else {
+      this.toastService.show(`${item.title} is already at the maximum quantity`, 'warning', 3000);
+    }
+  }
+
+  /**
+   * Delete a line from the saved-for-later list
+   */
+  onRemoveSavedItem(lineKey: string): void {
+    this.cartService.removeSavedItem(lineKey);
+  }
+
+  /**
+   * Selected options of a line as display text
+   */
+  getOptionsText = formatSelectedOptions;
+
   /**
    * Apply discount code to cart
    */
@@ -99,36 +170,87 @@ export class CartComponent implements OnInit, OnDestroy {
       return;
     }
 
-    const success = this.cartService.applyDiscount(this.discountCode.trim());
+    const result = this.cartService.applyDiscount(this.discountCode.trim());
 
-    if (success) {
+    if (result.success) {
       this.toastService.show(
-        `Discount ${this.discountCode} applied successfully!`,
+        `Discount ${result.discount.code} applied successfully!`,
         'success',
         3000
       );
       this.discountCode = '';
     } else {
-      this.discountError = 'Invalid or expired discount code';
-      this.toastService.show('Invalid discount code', 'error', 3000);
+      this.discountError = result.message;
+      this.toastService.show(result.message, 'error', 3000);
     }
   }
 
   /**
-   * Remove applied discount
+   * Change the destination country used for tax
+   */
+  onCountryChange(country: string): void {
+    this.cartService.setDestination({ ...this.cartState.destination, country });
+  }
+
+  /**
+   * Select a shipping method
+   */
+  onShippingMethodChange(methodId: ShippingMethodId): void {
+    this.cartService.setShippingMethod(methodId);
+  }
+
+  /**
+   * Remove an applied discount code
+   */
+  removeDiscount(code: string): void {
+    const commandId = this.cartService.removeDiscount(code);
+    this.showUndo(`Discount ${code} removed`, 'info', commandId);
+  }
+
+  /**
+   * Accept price changes and drop unavailable items
    */
-  removeDiscount(): void {
-    this.cartService.removeDiscount();
-    this.toastService.show('Discount removed', 'info', 2000);
+  acknowledgeChanges(): void {
+    this.cartService.acknowledgeChanges();
+    this.toastService.show('Cart updated', 'success', 2000);
+  }
+
+  /**
+   * Copy a link that recreates this cart (items, quantities and codes)
+   */
+  shareCart(): void {
+    const url = `${location.origin}/cart/import?c=${this.cartService.getShareToken()}`;
+
+    navigator.clipboard.writeText(url)
+      .then(() => this.toastService.show('Cart link copied to clipboard', 'success', 3000))
+      .catch(() => this.toastService.show('Could not copy the cart link', 'error', 3000));
   }
 
   /**
-   * Clear entire cart with confirmation
+   * Clear entire cart (can be undone from the toast)
    */
   clearCart(): void {
-    if (confirm('Are you sure you want to clear your entire cart?')) {
-      this.cartService.clearCart();
-      this.toastService.show('Cart cleared', 'warning', 2000);
+    const commandId = this.cartService.clearCart();
+    this.showUndo('Cart cleared', 'warning', commandId);
+  }
+
+  /**
+   * Undo the last cart change
+   */
+  undo(): void {
+    const label = this.cartService.undo();
+    if (label) {
+      this.toastService.show(`Undone: ${label}`, 'info', 2000);
+    }
+  }
+
+  /**
+   * Redo the last undone cart change
+   */
+  redo(): void {
+    const label = this.cartService.redo();
+    if (label) {
+      this.toastService.show(`Redone: ${label}`, 'info', 2000);
     }
   }
 
@@ -141,54 +263,78 @@ export class CartComponent implements OnInit, OnDestroy {
       return;
      }
 
-     this.isLoadingCheckout = true;
+     if (this.cartChanges.length > 0) {
+      this.notifyChanges(this.cartChanges);
+      return;
+     }
 
-     // Save cart snapshot into CheckoutService for later use (optional)
-     this.checkoutService.setCartSnapshot(this.cartState);
+     this.isLoadingCheckout = true;
 
-     // Collect product ids and send them to checkout via query params
-     const productIds: number[] = this.cartItems.map(i => i.id);
-     this.router
-      .navigate(['/checkout'], { queryParams: { ids: productIds.join(',') } })
-      .finally(() => {
-        this.isLoadingCheckout = false;
+     // Re-check prices right before checkout
+     this.cartService.revalidateCart()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(changes => {
+        if (changes.length > 0) {
+          this.isLoadingCheckout = false;
+          this.notifyChanges(changes);
+          return;
+        }
+        this.goToCheckout();
       });
     }
 
   /**
-   * Get amount needed for free shipping
+   * Get amount needed for free shipping with the selected method
+   * 0 when the method has no free shipping threshold
    */
   getAmountForFreeShipping(): number {
-    return getAmountUntilFreeShipping(this.cartState.subtotal);
+    const threshold = this.cartState.shippingMethod?.freeThreshold;
+    return threshold === undefined ? 0 : getAmountUntilFreeShipping(this.cartState.subtotal, threshold);
   }
 
   /**
-   * Check if free shipping qualifies
+   * Check if free shipping qualifies for the selected method
    */
   hasFreeShipping(): boolean {
-    return qualifiesForFreeShipping(this.cartState.subtotal);
+    const threshold = this.cartState.shippingMethod?.freeThreshold;
+    return threshold !== undefined && qualifiesForFreeShipping(this.cartState.subtotal, threshold);
+  }
+
+  /**
+   * Hand the cart over to the checkout route
+   */
+  private goToCheckout(): void {
+    // Save cart snapshot into CheckoutService for later use (optional)
+    this.checkoutService.setCartSnapshot(this.cartState);
+    this.analytics.track({ type: 'checkout_started', itemCount: this.cartState.itemCount, value: this.cartState.total });
+
+    // Collect product ids and send them to checkout via query params
+    const productIds: number[] = this.cartItems.map(i => i.id);
+    this.router
+      .navigate(['/checkout'], { queryParams: { ids: productIds.join(',') } })
+      .finally(() => {
+        this.isLoadingCheckout = false;
+      });
   }
 
   /**
-   * Format price helper
+   * Toast for a destructive action with an "Undo" button
+   * The button reverts that action only, and is disabled once a later change is on top of it.
    */
-  formatPrice = formatPrice;
+  private showUndo(message: string, type: 'info' | 'warning', commandId: number | null): void {
+    this.toastService.show(message, type, 5000, commandId === null ? undefined : {
+      label: 'Undo',
+      handler: () => this.cartService.undoCommand(commandId),
+      isDisabled: () => !this.cartService.canUndoCommand(commandId)
+    });
+  }
 
   /**
-   * Get empty cart state
+   * Summarise catalog changes in a toast
    */
-  private getEmptyState(): CartState {
-    return {
-      items: [],
-      subtotal: 0,
-      itemCount: 0,
-      discount: null,
-      discountAmount: 0,
-      tax: 0,
-      taxRate: 0.10,
-      shippingCost: 0,
-      total: 0
-    };
+  private notifyChanges(changes: CartChange[]): void {
+    if (changes.length === 0) return;
+    this.toastService.show(`${summarizeCartChanges(changes)}. Please review your cart.`, 'warning', 5000);
   }
 
   ngOnDestroy(): void {
@@ -0,0 +1,84 @@
+import { Component, DestroyRef, inject, OnInit } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, Router } from '@angular/router';
+import { Title } from '@angular/platform-browser';
+import { Subject, catchError, of, switchMap } from 'rxjs';
+import { Category } from '../../core/model/category';
+import { CategoryService } from '../../core/services/category.service';
+import { ProductsComponent } from '../products/products.component';
+import { Breadcrumb, BreadcrumbsComponent } from '../../shared/components/breadcrumbs/breadcrumbs.component';
+
+/**
+ * CategoryComponent - one category's products at /categories/:slug
+ * The products listing, filters included, limited to the category.
+ * Unknown slugs show NotfoundComponent.
+ */
+@Component({
+  selector: 'app-category',
+  standalone: true,
+  imports: [ProductsComponent, BreadcrumbsComponent],
+  templateUrl: './category.component.html',
+  styleUrls: ['./category.component.css']
+})
+export class CategoryComponent implements OnInit {
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private readonly title = inject(Title);
+  private readonly categoryService = inject(CategoryService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  category: Category | null = null;
+  breadcrumbs: Breadcrumb[] = [];
+  isLoading = true;
+  error: string | null = null;
+
+  private slug: string | null = null;
+  private load$ = new Subject<string | null>();
+
+  ngOnInit(): void {
+    this.load$
+      .pipe(
+        switchMap(slug => {
+          this.isLoading = true;
+          this.error = null;
+          // undefined - no such category, null - categories couldn't be loaded
+          return this.categoryService.getCategory(slug).pipe(catchError(() => of(null)));
+        }),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe(category => {
+        this.isLoading = false;
+        if (category === undefined) {
+          this.router.navigate(['/notfound'], { skipLocationChange: true });
+        } else if (category === null) {
+          this.error = 'We could not load this category.';
+        } else {
+          this.show(category);
+        }
+      });
+
+    this.route.paramMap
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(params => {
+        this.slug = params.get('slug');
+        this.load$.next(this.slug);
+      });
+  }
+
+  /**
+   * Try loading the category again after an error
+   */
+  retry(): void {
+    this.load$.next(this.slug);
+  }
+
+  private show(category: Category): void {
+    this.category = category;
+    this.title.setTitle(category.label);
+    this.breadcrumbs = [
+      { label: 'Home', link: '/home' },
+      { label: 'Categories', link: '/categories' },
+      { label: category.label }
+    ];
+  }
+}
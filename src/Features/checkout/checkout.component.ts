@@ -1,22 +1,64 @@
-import { Component, inject, Input, OnInit } from '@angular/core';
+import { Component, DestroyRef, inject, OnInit } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { CommonModule } from '@angular/common';
 import { FormBuilder, FormGroup, Validators, ReactiveFormsModule, FormControl } from '@angular/forms';
+import { Router } from '@angular/router';
+import { HttpErrorResponse } from '@angular/common/http';
+import { Observable, catchError, forkJoin, map, of, switchMap, throwError } from 'rxjs';
 import { FormInput } from '../../shared/components/form-input/form-input';
+import { PricePipe } from '../../shared/pipes/price-pipe';
+import { CartService, CartState } from '../../core/services/cart.service';
+import { CheckoutService, Order } from '../../core/services/checkout.service';
+import { PaymentService } from '../../core/services/payment.service';
+import { ToastService } from '../../core/services/toast.service';
+import { formatSelectedOptions } from '../../utils/cart-helpers';
+import { COUNTRIES, DEFAULT_COUNTRY } from '../../core/data/countries';
+import { ShippingMethodId } from '../../core/model/shipping';
+import { GiftCardBalance, GiftCardRedemptionResult } from '../../core/model/gift-card';
+import { GiftCardService } from '../../core/services/gift-card.service';
+import { isValidGiftCardCode, maskGiftCardCode, normalizeGiftCardCode, planGiftCardRedemptions } from '../../utils/gift-cards';
+import { subtractMoney, toMajor, toMoney } from '../../utils/money';
 
 @Component({
   selector: 'app-checkout',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, FormInput],
+  imports: [CommonModule, ReactiveFormsModule, FormInput, PricePipe],
   templateUrl: './checkout.component.html',
   styleUrls: ['./checkout.component.css'],
 })
 export class CheckoutComponent implements OnInit {
 
   private readonly fb = inject(FormBuilder);
+  private readonly router = inject(Router);
+  private readonly cartService = inject(CartService);
+  private readonly checkoutService = inject(CheckoutService);
+  private readonly paymentService = inject(PaymentService);
+  private readonly toastService = inject(ToastService);
+  private readonly giftCardService = inject(GiftCardService);
+  private readonly destroyRef = inject(DestroyRef);
+
   checkoutForm!: FormGroup;
+  cartState!: CartState;
+  isPlacingOrder = false;
+  countries = COUNTRIES;
+  giftCards: GiftCardBalance[] = [];
+  giftCardCode = new FormControl('', { nonNullable: true });
+  isCheckingGiftCard = false;
 
   ngOnInit(): void {
     this.initForm();
+
+    this.cartService.getCartState$()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(state => this.cartState = state);
+
+    // Taxes follow the shipping address
+    this.checkoutForm.get('shippingAddress')!.valueChanges
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(address => this.cartService.setDestination({
+        country: address.country,
+        city: address.city ?? undefined
+      }));
   }
 
   initForm(): void {
@@ -25,10 +67,124 @@ export class CheckoutComponent implements OnInit {
         details: [null, [Validators.required]],
         phone: [null, [Validators.required, Validators.pattern(/^01[0125][0-9]{8}$/)]],
         city: [null, [Validators.required]],
+        country: [this.cartService.getCartState().destination.country ?? DEFAULT_COUNTRY, [Validators.required]],
       }),
     });
   }
 
+  /**
+   * Validate the address, take payment (card only) and save the order
+   */
+  placeOrder(paymentMethod: Order['paymentMethod']): void {
+    this.checkoutForm.markAllAsTouched();
+    if (this.checkoutForm.invalid || this.isPlacingOrder) return;
+
+    if (this.cartState.items.length === 0) {
+      this.toastService.error('Your cart is empty');
+      return;
+    }
+
+    if (this.cartService.hasUnacknowledgedChanges()) {
+      this.toastService.error('Some items in your cart have changed. Please review your cart.');
+      this.router.navigate(['/cart']);
+      return;
+    }
+
+    if (!this.cartState.shippingMethod) {
+      this.toastService.error("We don't ship to this destination yet");
+      return;
+    }
+
+    const order = this.checkoutService.buildOrder(
+      this.cartState,
+      this.checkoutForm.value.shippingAddress,
+      paymentMethod,
+      this.giftCards
+    );
+
+    this.isPlacingOrder = true;
+
+    // The server re-prices the order before any money moves
+    this.checkoutService.verifyPricing(order)
+      .pipe(switchMap(verified => verified.paymentMethod === 'card'
+        ? this.payByCard(verified)
+        : this.checkoutService.createOrder(verified)))
+      .subscribe({
+        next: saved => this.onOrderPlaced(saved),
+        error: (error: Error) => this.onOrderFailed(error)
+      });
+  }
+
+  // ============ GIFT CARDS ============
+
+  /**
+   * Look up the typed code and add the card to this order
+   */
+  applyGiftCard(): void {
+    const code = normalizeGiftCardCode(this.giftCardCode.value);
+    if (!isValidGiftCardCode(code)) {
+      this.toastService.error('Gift card codes are 16 letters or numbers');
+      return;
+    }
+    if (this.giftCards.some(card => card.code === code)) {
+      this.toastService.info('This gift card is already applied');
+      return;
+    }
+
+    this.isCheckingGiftCard = true;
+    this.giftCardService.getBalance(code).subscribe({
+      next: card => {
+        this.isCheckingGiftCard = false;
+        if (card.balance <= 0) {
+          this.toastService.error('This gift card has no balance left');
+          return;
+        }
+        this.giftCards = [...this.giftCards, card];
+        this.giftCardCode.reset();
+      },
+      error: () => this.isCheckingGiftCard = false
+    });
+  }
+
+  removeGiftCard(code: string): void {
+    this.giftCards = this.giftCards.filter(card => card.code !== code);
+  }
+
+  /**
+   * How much each applied card will pay towards the current total
+   */
+  get giftCardPlan(): GiftCardRedemptionResult[] {
+    return planGiftCardRedemptions(this.cartState.total, this.giftCards);
+  }
+
+  /**
+   * Total left to pay by card or cash after gift cards
+   */
+  get amountDue(): number {
+    return toMajor(this.giftCardPlan.reduce(
+      (due, redemption) => subtractMoney(due, toMoney(redemption.amount)),
+      toMoney(this.cartState.total)
+    ));
+  }
+
+  getGiftCardRedemption(code: string): GiftCardRedemptionResult | undefined {
+    return this.giftCardPlan.find(redemption => redemption.code === code);
+  }
+
+  maskGiftCardCode = maskGiftCardCode;
+
+  /**
+   * Select a shipping method
+   */
+  onShippingMethodChange(methodId: ShippingMethodId): void {
+    this.cartService.setShippingMethod(methodId);
+  }
+
+  /**
+   * Selected options of an order line as display text
+   */
+  getOptionsText = formatSelectedOptions;
+
    // ✅ Getters
   get detailsControl(): FormControl {
     return this.checkoutForm.get('shippingAddress.details') as FormControl;
@@ -42,4 +198,64 @@ export class CheckoutComponent implements OnInit {
     return this.checkoutForm.get('shippingAddress.city') as FormControl;
   }
 
+  /**
+   * Charge the card for what gift cards don't cover, then save the order
+   */
+  private payByCard(order: Order): Observable<Order> {
+    return this.paymentService
+      .processCardPayment(this.checkoutService.getAmountDue(order))
+      .pipe(
+        switchMap(result => {
+          if (!result.success) {
+            throw new Error('Payment was declined');
+          }
+          return this.checkoutService.createOrder({
+            ...order,
+            tenders: order.tenders?.map(t => t.method === 'card' ? { ...t, transactionId: result.transactionId } : t),
+            paymentStatus: 'paid',
+            transactionId: result.transactionId
+          }).pipe(
+            // The order or its gift cards were refused - give the card payment back
+            catchError(error => this.paymentService
+              .refundCardPayment(result.transactionId!)
+              .pipe(switchMap(() => throwError(() => error))))
+          );
+        })
+      );
+  }
+
+  private onOrderFailed(error: Error): void {
+    this.isPlacingOrder = false;
+
+    // HTTP errors are already toasted by errorInterceptor
+    if (!(error instanceof HttpErrorResponse)) {
+      this.toastService.error(error.message);
+      return;
+    }
+
+    this.refreshGiftCards();
+  }
+
+  /**
+   * Reload the applied cards after a failed redemption, dropping spent ones
+   */
+  private refreshGiftCards(): void {
+    if (this.giftCards.length === 0) return;
+
+    forkJoin(this.giftCards.map(card => this.giftCardService.getBalance(card.code).pipe(
+      map(balance => balance.balance > 0 ? balance : null),
+      catchError(() => of(null))
+    ))).subscribe(cards => {
+      this.giftCards = cards.filter((card): card is GiftCardBalance => card !== null);
+    });
+  }
+
+  private onOrderPlaced(order: Order): void {
+    this.isPlacingOrder = false;
+    this.cartService.clearCart();
+    this.cartService.clearHistory(); // The order can't be undone from the cart
+    this.toastService.success(`Order ${order.id} placed successfully!`);
+    this.router.navigate(['/orders']);
+  }
+
 }
@@ -1,9 +1,214 @@
-import { Component } from '@angular/core';
+import { Component, DestroyRef, inject, OnInit } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { AsyncPipe } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { Title } from '@angular/platform-browser';
+import { Observable, Subject, catchError, map, of, switchMap } from 'rxjs';
+import { Product, ProductOption, SelectedOptions } from '../../core/model/product';
+import { CatalogService } from '../../core/services/catalog.service';
+import { CartService } from '../../core/services/cart.service';
+import { ProductService } from '../../core/services/product.service';
+import { ToastService } from '../../core/services/toast.service';
+import { MiniCartService } from '../../core/services/mini-cart.service';
+import { Card } from '../../shared/components/card/card';
+import { Breadcrumb, BreadcrumbsComponent } from '../../shared/components/breadcrumbs/breadcrumbs.component';
+import { PricePipe } from '../../shared/pipes/price-pipe';
+import { createCartItem, formatSelectedOptions } from '../../utils/cart-helpers';
+import { getDefaultSelection, getProductOptions } from '../../utils/product-options';
+import {
+  QuantityRules,
+  canDecreaseQuantity,
+  canIncreaseQuantity,
+  getProductInventory,
+  getQuantityRules,
+  isLowStock,
+  normalizeQuantity
+} from '../../utils/quantity-rules';
+import { RatingStar, getProductImages, getRatingStars, getRelatedProducts, parseProductId } from '../../utils/product-details';
+import { formatBundleContents } from '../../utils/bundles';
+import { getCategoryLabel, toCategorySlug } from '../../utils/categories';
 
+/**
+ * DetailsComponent - product page at /details/:id
+ * Gallery, price, description and rating, with variant and quantity choice
+ * feeding the cart. Unknown ids show NotfoundComponent.
+ */
 @Component({
   selector: 'app-details',
   standalone: true,
+  imports: [AsyncPipe, FormsModule, Card, PricePipe, BreadcrumbsComponent],
   templateUrl: './details.component.html',
   styleUrls: ['./details.component.css']
 })
-export class DetailsComponent {}
+export class DetailsComponent implements OnInit {
+
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private readonly title = inject(Title);
+  private readonly catalog = inject(CatalogService);
+  private readonly cartService = inject(CartService);
+  private readonly productService = inject(ProductService);
+  private readonly toastService = inject(ToastService);
+  private readonly miniCartService = inject(MiniCartService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  product: Product | null = null;
+  isLoading = true;
+  error: string | null = null;
+
+  // Gallery
+  images: string[] = [];
+  activeImage = '';
+  stars: RatingStar[] = [];
+
+  // Variant choice (size, colour...) for products that have options
+  options: ProductOption[] = [];
+  selectedOptions: SelectedOptions = {};
+
+  // Quantity selector
+  rules!: QuantityRules;
+  quantity = 1;
+
+  related: Product[] = [];
+  breadcrumbs: Breadcrumb[] = [];
+  isFavorite$: Observable<boolean> = of(false);
+
+  private productId: number | null = null;
+  private load$ = new Subject<number | null>();
+
+  ngOnInit(): void {
+    this.load$
+      .pipe(
+        switchMap(id => {
+          this.isLoading = true;
+          this.error = null;
+          // undefined - no such product, null - it couldn't be loaded
+          return id === null
+            ? of(undefined)
+            : this.catalog.getProduct(id).pipe(catchError(() => of(null)));
+        }),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe(product => {
+        this.isLoading = false;
+        if (product === undefined) {
+          this.router.navigate(['/notfound'], { skipLocationChange: true });
+        } else if (product === null) {
+          this.error = 'We could not load this product.';
+        } else {
+          this.show(product);
+        }
+      });
+
+    this.route.paramMap
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(params => {
+        this.productId = parseProductId(params.get('id'));
+        this.load$.next(this.productId);
+      });
+  }
+
+  /**
+   * Try loading the product again after an error
+   */
+  retry(): void {
+    this.load$.next(this.productId);
+  }
+
+  /**
+   * Contents of a bundle as display text (empty for regular products)
+   */
+  get bundleContents(): string {
+    return formatBundleContents(this.product?.bundle);
+  }
+
+  get isOutOfStock(): boolean {
+    return this.quantity === 0;
+  }
+
+  get isLowStock(): boolean {
+    return isLowStock(this.rules);
+  }
+
+  get canIncrease(): boolean {
+    return canIncreaseQuantity(this.quantity, this.rules);
+  }
+
+  get canDecrease(): boolean {
+    return canDecreaseQuantity(this.quantity, this.rules);
+  }
+
+  increaseQuantity(): void {
+    if (this.canIncrease) this.quantity += this.rules.step;
+  }
+
+  decreaseQuantity(): void {
+    if (this.canDecrease) this.quantity -= this.rules.step;
+  }
+
+  /**
+   * Add the chosen variant and quantity to the cart
+   */
+  addToCart(): void {
+    if (!this.product || this.isOutOfStock) return;
+
+    const options = this.options.length ? { ...this.selectedOptions } : undefined;
+    const { key, quantity, ...line } = createCartItem(this.product, this.quantity, options);
+    const added = this.cartService.addToCart(line, this.quantity);
+
+    if (added === 0) {
+      this.toastService.show(`You can't add more of ${this.product.title}`, 'warning', 3000);
+      return;
+    }
+
+    const variant = formatSelectedOptions(options);
+    this.toastService.show(
+      `${added} × ${this.product.title}${variant ? ` (${variant})` : ''} added to cart!`,
+      'success',
+      3000
+    );
+    this.miniCartService.open();
+  }
+
+  toggleFavorite(): void {
+    if (!this.product) return;
+
+    if (this.productService.isFavorited(this.product.id)) {
+      this.productService.removeFromFavorites(this.product.id);
+    } else {
+      this.productService.addToFavorites(this.product.id);
+    }
+  }
+
+  private show(product: Product): void {
+    this.product = product;
+    this.title.setTitle(product.title);
+    this.breadcrumbs = [
+      { label: 'Home', link: '/home' },
+      { label: 'Categories', link: '/categories' },
+      { label: getCategoryLabel(product.category), link: ['/categories', toCategorySlug(product.category)] },
+      { label: product.title }
+    ];
+
+    this.images = getProductImages(product);
+    this.activeImage = this.images[0];
+    this.stars = getRatingStars(product.rating);
+
+    this.options = getProductOptions(product);
+    this.selectedOptions = getDefaultSelection(this.options);
+
+    this.rules = getQuantityRules(getProductInventory(product));
+    this.quantity = normalizeQuantity(this.rules.min, this.rules);
+
+    this.isFavorite$ = this.productService.getFavorites$().pipe(map(ids => ids.includes(product.id)));
+
+    this.related = [];
+    this.catalog.loadProducts(true)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: catalog => this.related = getRelatedProducts(product, catalog),
+        error: error => console.error('Error loading related products:', error)
+      });
+  }
+}
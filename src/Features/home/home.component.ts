@@ -1,6 +1,9 @@
-import { Component, inject, OnInit } from '@angular/core';
-import { Products } from '../../core/services/Products/products';
+import { Component, DestroyRef, inject, OnInit } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { AsyncPipe } from '@angular/common';
+import { CatalogService } from '../../core/services/catalog.service';
 import { Product } from '../../core/model/product';
+import { isBundle } from '../../utils/bundles';
 import { Card } from "../../shared/components/card/card";
 import { MainSlider } from "./main-slider/main-slider";
 
@@ -9,12 +12,16 @@ import { MainSlider } from "./main-slider/main-slider";
   standalone: true,
   templateUrl: './home.component.html',
   styleUrls: ['./home.component.css'],
-  imports: [Card, MainSlider],
+  imports: [Card, MainSlider, AsyncPipe],
 })
 export class HomeComponent implements OnInit {
-  
-  private readonly productsService = inject(Products);
+
+  private readonly catalog = inject(CatalogService);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly FEATURED_COUNT = 8;
+
   productsList: Product[] = [];
+  error$ = this.catalog.getError$();
 
   ngOnInit() {
     this.getAllProductData();
@@ -22,16 +29,17 @@ export class HomeComponent implements OnInit {
 
   getAllProductData(): void {
 
-    this.productsService.getAllProducts().subscribe({
+    this.catalog.loadProducts()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
 
-      next: (data) => {
-        this.productsList = data;
-        console.log(this.productsList);
-      },
+        next: (products) => {
+          this.productsList = products.filter(product => !isBundle(product)).slice(0, this.FEATURED_COUNT);
+        },
 
-      error: (error) => {
-        console.error('Error fetching products:', error);
-      },
-    });
+        error: (error) => {
+          console.error('Error fetching products:', error);
+        },
+      });
   }
 }
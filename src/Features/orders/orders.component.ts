@@ -2,17 +2,21 @@ import { Component, OnInit } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { CheckoutService, Order } from '../../core/services/checkout.service';
 import { RouterModule } from '@angular/router';
+import { formatSelectedOptions } from '../../utils/cart-helpers';
+import { PricePipe } from '../../shared/pipes/price-pipe';
 
 @Component({
   selector: 'app-orders',
   standalone: true,
-  imports: [CommonModule, RouterModule],
+  imports: [CommonModule, RouterModule, PricePipe],
   templateUrl: './orders.component.html',
   styleUrls: ['./orders.component.css']
 })
 export class OrdersComponent implements OnInit {
   orders: Order[] = [];
 
+  getOptionsText = formatSelectedOptions;
+
   constructor(private checkoutService: CheckoutService) {}
 
   ngOnInit(): void {
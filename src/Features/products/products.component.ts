@@ -1,53 +1,170 @@
-import { Component, inject } from '@angular/core';
+import { Component, DestroyRef, Input, OnChanges, SimpleChanges, inject } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { AsyncPipe } from '@angular/common';
+import { ActivatedRoute, Router } from '@angular/router';
+import { EMPTY, Subject, catchError, combineLatest, debounceTime, map, startWith, switchMap } from 'rxjs';
 import { Card } from "../../shared/components/card/card";
+import { PricePipe } from '../../shared/pipes/price-pipe';
 import { Product } from '../../core/model/product';
-import { Products } from '../../core/services/Products/products';
+import { PriceRange, ProductFacets, ProductQuery, ProductSort } from '../../core/model/catalog';
+import { CatalogService } from '../../core/services/catalog.service';
 import { NgxPaginationModule } from 'ngx-pagination';
 import { FormsModule } from '@angular/forms';
-import { SearchPipe } from '../../shared/pipes/search-pipe';
+import { MAX_PAGE_SIZE, PRODUCT_SORTS, parseProductQuery, toQueryParams } from '../../utils/product-query';
+import { getCategoryLabel } from '../../utils/categories';
 
+/**
+ * ProductsComponent - the product listing at /products
+ * Filters, sort and page live in the query string (see parseProductQuery),
+ * so every view can be bookmarked, reloaded and navigated back to.
+ * Category pages embed it with the category fixed.
+ */
 @Component({
   selector: 'app-products',
   standalone: true,
   templateUrl: './products.component.html',
   styleUrls: ['./products.component.css'],
-  imports: [Card, NgxPaginationModule,FormsModule,SearchPipe]
+  imports: [Card, NgxPaginationModule,FormsModule,AsyncPipe,PricePipe]
 })
-export class ProductsComponent {
-  product: any;
-  private readonly productsService = inject(Products);
+export class ProductsComponent implements OnChanges {
+  // Category to list, instead of the category filter (e.g. on /categories/:slug)
+  @Input() category?: string;
+
+  private readonly catalog = inject(CatalogService);
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private readonly destroyRef = inject(DestroyRef);
 
   productsList: Product[] = [];
+  bundles: Product[] = [];
+  facets: ProductFacets | null = null;
+  loading$ = this.catalog.getLoading$();
+  error$ = this.catalog.getError$();
+  sorts = PRODUCT_SORTS;
+  categoryLabel = getCategoryLabel;
 
-  pageSize!: number
-  p!: number
-  total!: number
+  query: ProductQuery = parseProductQuery({});
+  total: number = 0
   text: string = ""
 
+  private search$ = new Subject<string>();
+  private reload$ = new Subject<void>();
+
   ngOnInit() {
-    this.getAllProductData();
+    // The URL is the source of truth: links, reloads and back/forward all land here
+    combineLatest([this.route.queryParams, this.reload$.pipe(startWith(undefined))])
+      .pipe(
+        map(([params]) => parseProductQuery(params)),
+        switchMap(query => {
+          this.query = this.category ? { ...query, category: this.category } : query;
+          this.text = query.q ?? '';
+          // Bundles are listed on their own, except on a category page
+          // A failed page is shown through error$; later queries still load
+          return this.catalog
+            .queryProducts({ ...this.query, kind: this.category ? undefined : 'product' })
+            .pipe(catchError(() => EMPTY));
+        }),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe(results => {
+        this.productsList = results.data;
+        this.total = results.total;
+        this.facets = results.facets;
+      });
+
+    this.search$
+      .pipe(debounceTime(300), takeUntilDestroyed(this.destroyRef))
+      .subscribe(q => {
+        if ((q || undefined) !== this.query.q) this.update({ q: q || undefined }, true);
+      });
+
+    if (!this.category) this.getBundles();
   }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['category'] && !changes['category'].firstChange) this.reload$.next();
+  }
+
   trackByProductId(index: number, product: Product): number {
   return product.id;
 }
 
+  /**
+   * Whether any filter (not sort or page) is applied
+   */
+  get hasFilters(): boolean {
+    const { q, minPrice, maxPrice, minRating, inStock } = this.query;
+    const category = this.category ? undefined : this.query.category;
+    return [q, category, minPrice, maxPrice, minRating, inStock].some(value => value !== undefined);
+  }
+
+  onSearchChange(text: string): void {
+    this.search$.next(text.trim());
+  }
+
+  onSortChange(sort: ProductSort): void {
+    this.update({ sort });
+  }
+
+  onPageChange(page: number): void {
+    this.update({ page });
+  }
+
+  // Choosing the active value of a facet again clears it
 
-  getAllProductData(pageNumber: number = 1): void {
+  toggleCategory(category: string): void {
+    this.update({ category: this.query.category === category ? undefined : category });
+  }
+
+  togglePriceRange(range: PriceRange): void {
+    this.update(this.isPriceRange(range) ? { minPrice: undefined, maxPrice: undefined } : { minPrice: range.min, maxPrice: range.max });
+  }
+
+  toggleRating(minRating: number): void {
+    this.update({ minRating: this.query.minRating === minRating ? undefined : minRating });
+  }
 
-    this.productsService.getAllProducts(pageNumber).subscribe({
+  toggleAvailability(inStock: boolean): void {
+    this.update({ inStock: this.query.inStock === inStock ? undefined : inStock });
+  }
 
-      next: (data) => {
-        this.productsList = data;
-        this.pageSize = data.limit;
-        this.p = data.currentPage;
-        this.total = data.total;
-      },
+  isPriceRange(range: PriceRange): boolean {
+    return this.query.minPrice === range.min && this.query.maxPrice === range.max;
+  }
 
-      error: (error) => {
-        console.error('Error fetching products:', error);
-      },
+  clearFilters(): void {
+    this.text = '';
+    this.navigate({ ...parseProductQuery({}), sort: this.query.sort });
+  }
+
+  retry(): void {
+    this.reload$.next();
+  }
+
+  /**
+   * Apply a change to the listing; anything but a page change starts again at page 1
+   * @param replaceUrl - Don't add a history entry (e.g. for each search keystroke)
+   */
+  private update(changes: Partial<ProductQuery>, replaceUrl: boolean = false): void {
+    this.navigate({ ...this.query, page: 1, ...changes }, replaceUrl);
+  }
+
+  private navigate(query: ProductQuery, replaceUrl: boolean = false): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: toQueryParams({ ...query, category: this.category ? undefined : query.category }),
+      replaceUrl
     });
   }
 
+  private getBundles(): void {
+    this.catalog.queryProducts({ ...parseProductQuery({}), limit: MAX_PAGE_SIZE, kind: 'bundle' })
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (results) => this.bundles = results.data,
+        error: (error) => console.error('Error fetching bundles:', error)
+      });
+  }
+
 
 }
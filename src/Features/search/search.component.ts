@@ -0,0 +1,66 @@
+import { Component, DestroyRef, inject, OnInit } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { catchError, map, of, switchMap } from 'rxjs';
+import { NgxPaginationModule } from 'ngx-pagination';
+import { SearchService } from '../../core/services/search.service';
+import { HighlightPipe } from '../../shared/pipes/highlight-pipe';
+import { PricePipe } from '../../shared/pipes/price-pipe';
+import { SearchResult, getSnippet } from '../../utils/search-index';
+
+/**
+ * SearchComponent - ranked search results at /search?q=
+ * Every product matching the query, best first, with the matched
+ * words highlighted in the title, category and description.
+ */
+@Component({
+  selector: 'app-search',
+  standalone: true,
+  imports: [RouterLink, NgxPaginationModule, HighlightPipe, PricePipe],
+  templateUrl: './search.component.html',
+  styleUrls: ['./search.component.css']
+})
+export class SearchComponent implements OnInit {
+  private readonly route = inject(ActivatedRoute);
+  private readonly searchService = inject(SearchService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  query = '';
+  results: SearchResult[] = [];
+  isLoading = false;
+  error: string | null = null;
+
+  pageSize = 10;
+  p = 1;
+
+  ngOnInit(): void {
+    this.route.queryParamMap
+      .pipe(
+        map(params => (params.get('q') ?? '').trim()),
+        switchMap(query => {
+          this.query = query;
+          this.p = 1;
+          this.isLoading = true;
+          this.error = null;
+          return this.searchService.search(query).pipe(
+            catchError(() => {
+              this.error = 'Search is unavailable right now. Please try again.';
+              return of([]);
+            })
+          );
+        }),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe(results => {
+        this.isLoading = false;
+        this.results = results;
+      });
+  }
+
+  /**
+   * The part of a description around its first match
+   */
+  snippet(result: SearchResult): string {
+    return getSnippet(result.product.description, result.terms);
+  }
+}
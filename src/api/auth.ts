@@ -0,0 +1,89 @@
+import type { Request, RequestHandler } from 'express';
+import { timingSafeEqual } from 'node:crypto';
+
+/**
+ * Endpoint of the auth API (the one the storefront signs in with) that checks a token
+ * Answers `{ decoded: { id, exp } }` for tokens it issued and hasn't expired, an error otherwise.
+ */
+const AUTH_VERIFY_URL = process.env['AUTH_VERIFY_URL'] || 'https://ecommerce.routemisr.com/api/v1/auth/verifyToken';
+
+/**
+ * Key for back-office endpoints (e.g. issuing gift cards), sent in the `x-admin-key` header
+ * Those endpoints are closed while it isn't set.
+ */
+const ADMIN_API_KEY = process.env['ADMIN_API_KEY'];
+
+const VERIFIED_TTL_MS = 10 * 60 * 1000;
+const MAX_VERIFIED = 10_000;
+
+// Tokens the auth API confirmed recently, so every request doesn't wait for it
+const verified = new Map<string, { userId: string; expiresAt: number }>();
+
+/**
+ * Resolve the account id for a request from the `token` header
+ * set by `headersInterceptor`.
+ *
+ * The token is checked with the auth API that issued it; answers are
+ * reused for a few minutes, never past the token's own expiry.
+ * @returns The account id, or null when the token is missing, refused or can't be checked
+ */
+export async function getUserId(req: Request, now: number = Date.now()): Promise<string | null> {
+  const token = req.header('token');
+  if (!token) return null;
+
+  const cached = verified.get(token);
+  if (cached && cached.expiresAt > now) return cached.userId;
+  verified.delete(token);
+
+  try {
+    const response = await fetch(AUTH_VERIFY_URL, { headers: { token } });
+    if (!response.ok) return null;
+
+    const decoded = (await response.json())?.decoded;
+    const id = decoded?.id ?? decoded?.sub;
+    if (typeof id !== 'string' && typeof id !== 'number') return null;
+
+    const expiresAt = typeof decoded.exp === 'number' ? Math.min(decoded.exp * 1000, now + VERIFIED_TTL_MS) : now + VERIFIED_TTL_MS;
+    if (verified.size >= MAX_VERIFIED) verified.delete(verified.keys().next().value!);
+    verified.set(token, { userId: String(id), expiresAt });
+    return String(id);
+  } catch (error) {
+    console.error('Error verifying token:', error);
+    return null;
+  }
+}
+
+/**
+ * Reject requests without a valid user token
+ */
+export const requireUser: RequestHandler = async (req, res, next) => {
+  const userId = await getUserId(req);
+  if (!userId) {
+    res.status(401).json({ message: 'Please sign in to continue' });
+    return;
+  }
+  res.locals['userId'] = userId;
+  next();
+};
+
+/**
+ * Reject requests without the admin key
+ * Shopper tokens never pass, signed in or not.
+ */
+export const requireAdmin: RequestHandler = (req, res, next) => {
+  const key = req.header('x-admin-key');
+  if (!ADMIN_API_KEY || !key || !safeEqual(key, ADMIN_API_KEY)) {
+    res.status(403).json({ message: 'Not allowed' });
+    return;
+  }
+  next();
+};
+
+/**
+ * Compare secrets in constant time
+ */
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
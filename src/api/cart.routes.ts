@@ -0,0 +1,75 @@
+import express from 'express';
+import type { CartItem } from '../core/services/cart.service';
+import type { SelectedOptions } from '../core/model/product';
+import { createCartItem } from '../utils/cart-helpers';
+import { resolveSharedCart } from '../utils/cart-share';
+import { requireUser } from './auth';
+import { loadCatalog } from './catalog';
+import { JsonStore } from './json-store';
+
+const carts = new JsonStore<CartItem[]>('carts');
+
+const MAX_LINES = 100;
+
+/**
+ * Account cart API
+ *
+ * GET /api/cart - cart saved for the signed-in account
+ * PUT /api/cart - replace the account cart with the posted items
+ * Every line must be a catalog product with valid options and an allowed quantity;
+ * lines are saved with the catalog's title, price and limits, not the posted ones.
+ */
+export const cartRouter = express.Router();
+
+cartRouter.use(requireUser);
+
+cartRouter.get('/', (req, res) => {
+  res.json({ items: carts.get(res.locals['userId']) ?? [] });
+});
+
+cartRouter.put('/', async (req, res) => {
+  const items: unknown = req.body?.items;
+  if (!Array.isArray(items) || items.length > MAX_LINES || !items.every(isCartLine)) {
+    res.status(400).json({ message: `Cart items must be an array of at most ${MAX_LINES} lines with a product id and a quantity` });
+    return;
+  }
+
+  let catalog;
+  try {
+    catalog = await loadCatalog();
+  } catch (error) {
+    console.error('Error loading catalog:', error);
+    res.status(503).json({ message: "The cart can't be saved right now. Please try again." });
+    return;
+  }
+
+  const posted = items.map(({ id, quantity, options }) => ({ id, quantity, options: options ?? undefined }));
+  const { lines, rejected } = resolveSharedCart({ items: posted, codes: [] }, catalog);
+  if (rejected.length > 0) {
+    res.status(400).json({ message: `${rejected[0].title} can't be added to the cart`, rejected });
+    return;
+  }
+
+  const outOfLimits = lines.find((line, index) => line.quantity !== posted[index].quantity);
+  if (outOfLimits) {
+    res.status(400).json({ message: `That quantity of ${outOfLimits.product.title} isn't available` });
+    return;
+  }
+
+  const saved: CartItem[] = lines.map(line => createCartItem(line.product, line.quantity, line.options));
+  carts.set(res.locals['userId'], saved);
+  res.json({ items: saved });
+});
+
+/**
+ * Whether a posted line has an integer product id and quantity, and string options
+ */
+function isCartLine(line: unknown): line is { id: number; quantity: number; options?: SelectedOptions } {
+  if (typeof line !== 'object' || line === null) return false;
+
+  const { id, quantity, options } = line as Record<string, unknown>;
+  return Number.isInteger(id) && Number.isInteger(quantity) && (quantity as number) > 0 && (
+    options === undefined || options === null ||
+    (typeof options === 'object' && !Array.isArray(options) && Object.values(options).every(v => typeof v === 'string'))
+  );
+}
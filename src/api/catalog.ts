@@ -0,0 +1,10 @@
+import type { Product } from '../core/model/product';
+import { CATALOG_FIXTURES } from '../core/data/catalog-fixtures';
+
+/**
+ * The catalog the server serves and prices orders with: the bundled fixtures, bundles included
+ * Async so the routes don't change when the catalog moves to a database.
+ */
+export async function loadCatalog(): Promise<Product[]> {
+  return CATALOG_FIXTURES;
+}
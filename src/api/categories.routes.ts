@@ -0,0 +1,34 @@
+import express from 'express';
+import { findCategory, getCategories } from '../utils/categories';
+import { loadCatalog } from './catalog';
+
+/**
+ * Categories API - derived from the catalog, so counts match the products
+ *
+ * GET /api/categories       - every category with its product count
+ * GET /api/categories/:slug - one category
+ */
+export const categoriesRouter = express.Router();
+
+categoriesRouter.get('/', async (req, res) => {
+  try {
+    res.json(getCategories(await loadCatalog()));
+  } catch (error) {
+    console.error('Error loading catalog:', error);
+    res.status(503).json({ message: "Categories can't be loaded right now. Please try again." });
+  }
+});
+
+categoriesRouter.get('/:slug', async (req, res) => {
+  try {
+    const category = findCategory(getCategories(await loadCatalog()), req.params.slug);
+    if (!category) {
+      res.status(404).json({ message: 'Category not found' });
+      return;
+    }
+    res.json(category);
+  } catch (error) {
+    console.error('Error loading catalog:', error);
+    res.status(503).json({ message: "Categories can't be loaded right now. Please try again." });
+  }
+});
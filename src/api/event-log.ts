@@ -0,0 +1,59 @@
+import { appendFile, mkdir, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import { DATA_DIR } from './json-store';
+
+/**
+ * EventLog - append-only log of JSON records, one file per day
+ *
+ * Records are appended as JSON lines to `<name>/<YYYY-MM-DD>.jsonl`, so a write
+ * never rewrites what is already stored and never blocks other requests.
+ * Appends run one after another. Once a day's file reaches maxBytesPerDay,
+ * further records that day are dropped.
+ */
+export class EventLog<T> {
+  private readonly dir: string;
+  private readonly sizes = new Map<string, number>(); // Bytes in each day's file
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(name: string, private readonly maxBytesPerDay: number) {
+    this.dir = join(DATA_DIR, name);
+  }
+
+  /**
+   * Append records to today's file
+   * @returns How many were written (the rest didn't fit under the daily cap)
+   */
+  append(records: T[], now: Date = new Date()): Promise<number> {
+    const write = this.queue.then(() => this.write(records, now.toISOString().slice(0, 10)));
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+
+  private async write(records: T[], day: string): Promise<number> {
+    const filePath = join(this.dir, `${day}.jsonl`);
+    let size = this.sizes.get(day) ?? await this.currentSize(filePath);
+
+    const lines: string[] = [];
+    for (const record of records) {
+      const line = JSON.stringify(record) + '\n';
+      if (size + Buffer.byteLength(line) > this.maxBytesPerDay) break;
+      size += Buffer.byteLength(line);
+      lines.push(line);
+    }
+
+    if (lines.length > 0) {
+      await mkdir(this.dir, { recursive: true });
+      await appendFile(filePath, lines.join(''));
+    }
+    this.sizes.set(day, size);
+    return lines.length;
+  }
+
+  private async currentSize(filePath: string): Promise<number> {
+    try {
+      return (await stat(filePath)).size;
+    } catch {
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import express from 'express';
+import type { TrackedEvent } from '../core/model/analytics';
+import { isTrackedEvent, toStoredEvent } from '../utils/analytics';
+import { EventLog } from './event-log';
+import { rateLimit } from './rate-limit';
+
+const events = new EventLog<TrackedEvent>('events', 50 * 1024 * 1024);
+
+const MAX_BATCH = 100;
+
+/**
+ * Analytics events API
+ *
+ * POST /api/events - record a batch of events ({ events }) in the day's event log
+ * Anonymous shoppers send events too, so there is no sign-in; each client may post
+ * 60 batches a minute. Malformed events are skipped and counted as rejected, and
+ * only the fields an event type defines are stored.
+ */
+export const eventsRouter = express.Router();
+
+eventsRouter.post('/', rateLimit(60_000, 60), async (req, res) => {
+  const batch = req.body?.events;
+  if (!Array.isArray(batch) || batch.length > MAX_BATCH) {
+    res.status(400).json({ message: `Events must be an array of at most ${MAX_BATCH}` });
+    return;
+  }
+
+  const accepted = batch.filter(isTrackedEvent).map(toStoredEvent);
+  let stored = 0;
+  try {
+    stored = accepted.length > 0 ? await events.append(accepted) : 0;
+  } catch (error) {
+    console.error('Error storing events:', error);
+  }
+
+  res.status(202).json({ accepted: stored, rejected: batch.length - stored });
+});
@@ -0,0 +1,9 @@
+import type { GiftCard } from '../core/model/gift-card';
+import { JsonStore } from './json-store';
+
+/**
+ * Gift cards issued by the back office, by code
+ * Shared by the gift card and order routes: each JsonStore keeps its own
+ * cache, so both need this instance to see each other's writes.
+ */
+export const giftCards = new JsonStore<GiftCard>('gift-cards');
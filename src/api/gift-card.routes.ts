@@ -0,0 +1,82 @@
+import express from 'express';
+import type { GiftCardRejectionReason } from '../core/model/gift-card';
+import {
+  checkGiftCard,
+  generateGiftCardCode,
+  giftCardRejection,
+  isValidGiftCardCode,
+  normalizeGiftCardCode,
+  toGiftCardBalance
+} from '../utils/gift-cards';
+import { toMajor, toMoney } from '../utils/money';
+import { requireAdmin } from './auth';
+import { giftCards } from './gift-card-store';
+
+const MAX_ISSUE_AMOUNT = 1000;
+
+const REJECTION_STATUS: Record<GiftCardRejectionReason, number> = {
+  invalid_format: 400,
+  not_found: 404,
+  disabled: 410,
+  expired: 410,
+  empty: 409,
+  insufficient_balance: 409
+};
+
+/**
+ * Gift card API
+ *
+ * POST /api/gift-cards        - issue a card ({ amount, expiresInDays? }), back office only (x-admin-key)
+ * GET  /api/gift-cards/:code  - balance of a card
+ *
+ * Cards are redeemed by POST /api/orders, against the total it re-prices.
+ */
+export const giftCardRouter = express.Router();
+
+giftCardRouter.post('/', requireAdmin, (req, res) => {
+  const amount = toMajor(toMoney(Number(req.body?.amount)));
+  const expiresInDays = req.body?.expiresInDays === undefined ? undefined : Number(req.body.expiresInDays);
+
+  if (!(amount > 0 && amount <= MAX_ISSUE_AMOUNT)) {
+    res.status(400).json({ message: `Gift cards can be issued for $0.01 to $${MAX_ISSUE_AMOUNT}` });
+    return;
+  }
+  if (expiresInDays !== undefined && !(expiresInDays > 0)) {
+    res.status(400).json({ message: 'expiresInDays must be a positive number' });
+    return;
+  }
+
+  const now = new Date();
+  const card = giftCards.update(data => {
+    let code = generateGiftCardCode();
+    while (data[code]) code = generateGiftCardCode();
+
+    data[code] = {
+      code,
+      initialBalance: amount,
+      balance: amount,
+      issuedAt: now.toISOString(),
+      expiresAt: expiresInDays ? new Date(now.getTime() + expiresInDays * 86_400_000).toISOString() : undefined,
+      transactions: []
+    };
+    return data[code];
+  });
+
+  res.status(201).json(card);
+});
+
+giftCardRouter.get('/:code', (req, res) => {
+  if (!isValidGiftCardCode(req.params.code)) {
+    res.status(400).json(giftCardRejection('invalid_format'));
+    return;
+  }
+
+  const card = giftCards.get(normalizeGiftCardCode(req.params.code));
+  const problem = checkGiftCard(card);
+  if (problem && problem.reason !== 'empty') {
+    res.status(REJECTION_STATUS[problem.reason]).json(problem);
+    return;
+  }
+
+  res.json(toGiftCardBalance(card!));
+});
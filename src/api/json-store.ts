@@ -0,0 +1,89 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+
+/**
+ * Directory holding the JSON files written by the API.
+ * Defaults to `./data` relative to where the server is started.
+ */
+export const DATA_DIR = process.env['DATA_DIR'] || join(process.cwd(), 'data');
+
+/**
+ * JsonStore - tiny key/value store persisted to a single JSON file
+ *
+ * Reads and writes are synchronous on purpose: Node handles one request
+ * callback at a time, so a read-modify-write inside `update` can never
+ * interleave with another request.
+ */
+export class JsonStore<T> {
+  private readonly filePath: string;
+  private cache: Record<string, T> | null = null;
+
+  constructor(name: string) {
+    this.filePath = join(DATA_DIR, `${name}.json`);
+  }
+
+  /**
+   * Get a single record
+   */
+  get(key: string): T | undefined {
+    return this.read()[key];
+  }
+
+  /**
+   * Get every record keyed by id
+   */
+  all(): Record<string, T> {
+    return { ...this.read() };
+  }
+
+  /**
+   * Replace a single record
+   */
+  set(key: string, value: T): void {
+    const data = this.read();
+    data[key] = value;
+    this.write(data);
+  }
+
+  /**
+   * Remove a single record
+   */
+  delete(key: string): void {
+    const data = this.read();
+    delete data[key];
+    this.write(data);
+  }
+
+  /**
+   * Read-modify-write the whole file in one step
+   * Nothing is written if the updater throws
+   */
+  update<R>(updater: (data: Record<string, T>) => R): R {
+    const draft = structuredClone(this.read());
+    const result = updater(draft);
+    this.write(draft);
+    return result;
+  }
+
+  private read(): Record<string, T> {
+    if (this.cache) return this.cache;
+
+    try {
+      this.cache = existsSync(this.filePath)
+        ? JSON.parse(readFileSync(this.filePath, 'utf8'))
+        : {};
+    } catch (error) {
+      console.error(`Error reading ${this.filePath}:`, error);
+      this.cache = {};
+    }
+    return this.cache!;
+  }
+
+  private write(data: Record<string, T>): void {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+    renameSync(tmpPath, this.filePath);
+    this.cache = data;
+  }
+}
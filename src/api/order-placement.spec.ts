@@ -0,0 +1,116 @@
+import { CATALOG_FIXTURES } from '../core/data/catalog-fixtures';
+import { GiftCard } from '../core/model/gift-card';
+import { PROMOTIONS } from '../core/data/promotions';
+import { PlaceOrderRequest } from '../core/model/pricing';
+import { priceCart } from '../utils/pricing';
+import { OrderStores, PlacedOrder, RecordStore, placeOrder, quoteOrder } from './order-placement';
+
+describe('order-placement', () => {
+  const destination = { country: 'EG', city: 'Cairo' };
+  const drive = CATALOG_FIXTURES.find(p => p.id === 9)!; // WD 2TB: 25 in stock, 5 per order
+  const A = 'AAAA-BBBB-CCCC-DDDD';
+
+  const memoryStore = <T>(): RecordStore<T> & { data: Record<string, T> } => {
+    const data: Record<string, T> = {};
+    return { data, get: key => data[key], update: updater => updater(data) };
+  };
+
+  // What the storefront sends for two drives with these codes
+  const order = (orderId: string, codes: string[], quantity = 2): PlaceOrderRequest => {
+    const breakdown = priceCart([{ key: '9', id: 9, price: drive.price, quantity, category: drive.category }], {
+      promotions: codes.map(code => PROMOTIONS.find(p => p.code === code)!),
+      destination,
+      shippingMethodId: 'standard'
+    });
+    const { subtotal, discountAmount, shippingCost, tax, total } = breakdown;
+    return {
+      orderId,
+      items: [{ productId: 9, quantity }],
+      discountCodes: codes,
+      destination,
+      shippingMethodId: 'standard',
+      totals: { subtotal, discountAmount, shippingCost, tax, total }
+    };
+  };
+
+  let orders: ReturnType<typeof memoryStore<PlacedOrder>>;
+  let promotionUsage: ReturnType<typeof memoryStore<Record<string, number>>>;
+  let giftCards: ReturnType<typeof memoryStore<GiftCard>>;
+  let stores: OrderStores;
+
+  beforeEach(() => {
+    orders = memoryStore();
+    promotionUsage = memoryStore();
+    giftCards = memoryStore();
+    giftCards.data[A] = { code: A, initialBalance: 500, balance: 500, issuedAt: '2026-01-01T00:00:00.000Z', transactions: [] };
+    stores = { orders, promotionUsage, giftCards };
+  });
+
+  it('accepts WELCOME5 on a first order and refuses it on the second', () => {
+    const first = placeOrder(order('ord_first', ['WELCOME5']), 'u1', CATALOG_FIXTURES, stores);
+    expect(first.status).toBe(201);
+    expect(promotionUsage.data['u1']).toEqual({ WELCOME5: 1 });
+
+    const second = placeOrder(order('ord_second', ['WELCOME5']), 'u1', CATALOG_FIXTURES, stores);
+    expect(second.status).toBe(409);
+    expect(second.body).toEqual(jasmine.objectContaining({ reason: 'usage_limit' }));
+    expect(quoteOrder(order('ord_second', ['WELCOME5']), 'u1', CATALOG_FIXTURES, stores).status).toBe(409);
+    expect(orders.data['ord_second']).toBeUndefined();
+
+    // Another shopper still has their first order
+    expect(placeOrder(order('ord_other', ['WELCOME5']), 'u2', CATALOG_FIXTURES, stores).status).toBe(201);
+  });
+
+  it('asks guests to sign in for codes limited per user', () => {
+    const result = placeOrder(order('ord_guest', ['WELCOME5']), null, CATALOG_FIXTURES, stores);
+
+    expect(result.body).toEqual(jasmine.objectContaining({ reason: 'sign_in_required' }));
+    expect(placeOrder(order('ord_guest', []), null, CATALOG_FIXTURES, stores).status).toBe(201);
+  });
+
+  it('records nothing for a refused order', () => {
+    const result = placeOrder(order('ord_both', ['SAVE10', 'SAVE20']), 'u1', CATALOG_FIXTURES, stores);
+
+    expect(result.body).toEqual(jasmine.objectContaining({ reason: 'not_stackable' }));
+    expect(orders.data).toEqual({});
+    expect(promotionUsage.data).toEqual({});
+  });
+
+  it('refuses quantities over the per-order limit', () => {
+    expect(placeOrder(order('ord_many', [], 6), 'u1', CATALOG_FIXTURES, stores).status).toBe(409);
+  });
+
+  it('charges gift cards once per order id, up to the re-priced total', () => {
+    const request = order('ord_card', []);
+    const total = request.totals.total;
+
+    const overpaid = placeOrder({ ...request, giftCards: [{ code: A, amount: total + 1 }] }, 'u1', CATALOG_FIXTURES, stores);
+    expect(overpaid.status).toBe(409);
+    expect(giftCards.data[A].balance).toBe(500);
+
+    const placed = placeOrder({ ...request, giftCards: [{ code: A, amount: total }] }, 'u1', CATALOG_FIXTURES, stores);
+    expect(placed.status).toBe(201);
+    expect(placed.body).toEqual(jasmine.objectContaining({
+      giftCards: [{ code: A, amount: total, remainingBalance: giftCards.data[A].balance }]
+    }));
+    expect(giftCards.data[A].balance).toBeCloseTo(500 - total, 2);
+
+    // A retry after a lost response gets the same order back without another charge
+    const retried = placeOrder({ ...request, giftCards: [{ code: A, amount: total }] }, 'u1', CATALOG_FIXTURES, stores);
+    expect(retried.status).toBe(200);
+    expect(retried.body).toEqual(jasmine.objectContaining({ id: 'ord_card', giftCards: orders.data['ord_card'].giftCards }));
+    expect(giftCards.data[A].transactions.length).toBe(1);
+
+    expect(placeOrder(request, 'u2', CATALOG_FIXTURES, stores).body).toEqual({ message: 'This order was already placed' });
+  });
+
+  it('records nothing when a gift card is refused', () => {
+    const request = { ...order('ord_short', ['WELCOME5']), giftCards: [{ code: A, amount: 1 }, { code: 'EEEE-FFFF-GGGG-HHHH', amount: 1 }] };
+    const result = placeOrder(request, 'u1', CATALOG_FIXTURES, stores);
+
+    expect(result.body).toEqual(jasmine.objectContaining({ reason: 'not_found' }));
+    expect(giftCards.data[A].balance).toBe(500);
+    expect(orders.data).toEqual({});
+    expect(promotionUsage.data).toEqual({});
+  });
+});
@@ -0,0 +1,234 @@
+import type { PlaceOrderRequest, PlaceOrderResponse, PriceBreakdown, PriceQuoteRequest, PricingLine } from '../core/model/pricing';
+import type { Product } from '../core/model/product';
+import type { GiftCard, GiftCardRedemptionResult } from '../core/model/gift-card';
+import type { Promotion } from '../core/model/promotion';
+import { PROMOTIONS } from '../core/data/promotions';
+import { DEFAULT_COUNTRY } from '../core/data/countries';
+import { comparePriceTotals, priceCart } from '../utils/pricing';
+import { getLineKey } from '../utils/cart-helpers';
+import { getProductWeight } from '../utils/bundles';
+import { resolveSharedCart } from '../utils/cart-share';
+import { rejection, validatePromotion } from '../utils/promotion-engine';
+import { isGiftCardRejection, redeemGiftCards } from '../utils/gift-cards';
+import { addMoney, toMoney, ZERO } from '../utils/money';
+
+/**
+ * An order as the server recorded it
+ */
+export interface PlacedOrder {
+  id: string;
+  userId: string | null;
+  items: PriceQuoteRequest['items'];
+  discountCodes: string[];
+  total: number;
+  giftCards: GiftCardRedemptionResult[]; // What each gift card paid
+  createdAt: string;
+}
+
+/**
+ * The parts of JsonStore order placement needs
+ */
+export interface RecordStore<T> {
+  get(key: string): T | undefined;
+  update<R>(updater: (data: Record<string, T>) => R): R;
+}
+
+/**
+ * Where placed orders, code usage and gift card balances are kept
+ */
+export interface OrderStores {
+  orders: RecordStore<PlacedOrder>;
+  promotionUsage: RecordStore<Record<string, number>>; // Orders per code, by user id
+  giftCards: RecordStore<GiftCard>;
+}
+
+/**
+ * Status and JSON body to answer with
+ */
+export interface OrderResponse {
+  status: number;
+  body: object;
+}
+
+const MAX_LINES = 100;
+const ORDER_ID_PATTERN = /^ord_[a-z0-9]{1,32}$/;
+
+/**
+ * Re-price an order with the server's catalog, promotions, shipping and tax tables
+ * @param quote - Posted order
+ * @param userId - Signed-in user, for per-user code limits
+ * @param catalog - Current products
+ * @param stores - Code usage so far
+ * @returns 200 with the breakdown, or why the order can't be placed as shown
+ */
+export function quoteOrder(
+  quote: Partial<PriceQuoteRequest>,
+  userId: string | null,
+  catalog: Product[],
+  stores: Pick<OrderStores, 'promotionUsage'>
+): OrderResponse {
+  const checked = checkOrder(quote, userId, catalog, stores);
+  return 'breakdown' in checked ? { status: 200, body: { breakdown: checked.breakdown } } : checked;
+}
+
+/**
+ * Check an order like a quote, redeem its gift cards against the re-priced total,
+ * then record it and count its codes against their per-user limits
+ * Nothing is recorded unless every check passes. Placing an order id again for
+ * the same user and total answers with the recorded order instead of charging twice.
+ * @returns 201 with { id, createdAt, giftCards, breakdown }, 200 for an order already placed, or why it was refused
+ */
+export function placeOrder(
+  request: Partial<PlaceOrderRequest>,
+  userId: string | null,
+  catalog: Product[],
+  stores: OrderStores,
+  now: Date = new Date()
+): OrderResponse {
+  if (typeof request.orderId !== 'string' || !ORDER_ID_PATTERN.test(request.orderId)) {
+    return { status: 400, body: { message: 'Orders need an id' } };
+  }
+
+  const redemptions = request.giftCards ?? [];
+  if (!Array.isArray(redemptions) || !redemptions.every(r => typeof r?.code === 'string' && typeof r.amount === 'number')) {
+    return { status: 400, body: { message: 'Gift cards need a code and an amount' } };
+  }
+
+  // Placed already: the shopper is retrying after losing the response
+  const placed = stores.orders.get(request.orderId);
+  if (placed) {
+    return placed.userId === userId && placed.total === request.totals?.total
+      ? { status: 200, body: toResponse(placed) }
+      : { status: 409, body: { message: 'This order was already placed' } };
+  }
+
+  const checked = checkOrder(request, userId, catalog, stores);
+  if (!('breakdown' in checked)) return checked;
+  const { breakdown } = checked;
+
+  const giftCardTotal = redemptions.reduce((sum, r) => addMoney(sum, toMoney(r.amount)), ZERO);
+  if (giftCardTotal > toMoney(breakdown.total)) {
+    return { status: 409, body: { message: "Gift cards can't pay more than the order total" } };
+  }
+
+  // Every card or none is charged, and a balance another order took can't be spent again
+  const orderId = request.orderId;
+  const results = redemptions.length > 0
+    ? stores.giftCards.update(data => redeemGiftCards(data, orderId, redemptions, now, request.currency))
+    : [];
+  if (isGiftCardRejection(results)) {
+    return { status: results.reason === 'invalid_format' ? 400 : 409, body: results };
+  }
+
+  // checkOrder read the usage and nothing was awaited since, so the limits still hold
+  const codes = breakdown.discounts.map(d => d.code);
+  if (userId && codes.length > 0) {
+    stores.promotionUsage.update(usage => {
+      const used = usage[userId] ?? {};
+      codes.forEach(code => used[code] = (used[code] ?? 0) + 1);
+      usage[userId] = used;
+    });
+  }
+
+  const order: PlacedOrder = {
+    id: orderId,
+    userId,
+    items: request.items!,
+    discountCodes: codes,
+    total: breakdown.total,
+    giftCards: results,
+    createdAt: now.toISOString()
+  };
+  stores.orders.update(data => data[order.id] = order);
+  return { status: 201, body: { ...toResponse(order), breakdown } };
+}
+
+function toResponse(order: PlacedOrder): PlaceOrderResponse {
+  return { id: order.id, createdAt: order.createdAt, giftCards: order.giftCards };
+}
+
+/**
+ * Re-price an order and check it can be placed
+ * Refuses quantities over a product's stock or per-order limit (shared with bundles
+ * containing it), codes that can't be combined, and codes the user has used up.
+ */
+function checkOrder(
+  quote: Partial<PriceQuoteRequest>,
+  userId: string | null,
+  catalog: Product[],
+  stores: Pick<OrderStores, 'promotionUsage'>
+): { breakdown: PriceBreakdown } | OrderResponse {
+  const items = quote.items;
+  if (!Array.isArray(items) || items.length === 0 || items.length > MAX_LINES ||
+      !items.every(item => Number.isInteger(item?.productId) && Number.isInteger(item?.quantity) && item.quantity > 0)) {
+    return { status: 400, body: { message: `Orders need 1 to ${MAX_LINES} lines with a product id and a quantity` } };
+  }
+  if (!quote.totals) {
+    return { status: 400, body: { message: 'The totals shown to the shopper are required' } };
+  }
+
+  // Lines share stock in order, so a product can't be ordered past its limits across lines
+  const posted = items.map(item => ({ id: item.productId, quantity: item.quantity, options: item.options ?? undefined }));
+  const { lines: resolved, rejected } = resolveSharedCart({ items: posted, codes: [] }, catalog);
+  if (rejected.length > 0) {
+    const [line] = rejected;
+    return {
+      status: 409,
+      body: {
+        message: line.reason === 'not_found' ? `Product #${line.id} is no longer available` : `${line.title} can't be ordered`,
+        rejected
+      }
+    };
+  }
+
+  const overLimit = resolved.find((line, index) => line.quantity !== posted[index].quantity);
+  if (overLimit) {
+    return { status: 409, body: { message: `That quantity of ${overLimit.product.title} isn't available` } };
+  }
+
+  const lines: PricingLine[] = resolved.map(({ product, options, quantity }) => ({
+    key: getLineKey(product.id, options),
+    id: product.id,
+    price: product.price,
+    quantity,
+    category: product.category,
+    weight: getProductWeight(product)
+  }));
+
+  const promotions: Promotion[] = [];
+  for (const code of quote.discountCodes ?? []) {
+    const promotion = PROMOTIONS.find(p => p.code === String(code).trim().toUpperCase());
+    if (!promotion) {
+      return { status: 409, body: rejection('not_found') };
+    }
+
+    const timesUsed = userId ? stores.promotionUsage.get(userId)?.[promotion.code] ?? 0 : null;
+    const refused = validatePromotion(promotion, lines, promotions, timesUsed, new Date(), quote.currency);
+    if (refused) {
+      return { status: 409, body: refused };
+    }
+    promotions.push(promotion);
+  }
+
+  const breakdown = priceCart(lines, {
+    promotions,
+    destination: { country: quote.destination?.country ?? DEFAULT_COUNTRY, city: quote.destination?.city },
+    shippingMethodId: quote.shippingMethodId ?? null,
+    currency: quote.currency
+  });
+
+  const inactive = breakdown.discounts.find(d => !d.active);
+  if (inactive) {
+    return { status: 409, body: { message: inactive.message, breakdown } };
+  }
+
+  const differences = comparePriceTotals(breakdown, quote.totals);
+  if (differences.length > 0) {
+    return {
+      status: 409,
+      body: { message: 'Prices have changed since you reviewed your cart. Please check it again.', differences, breakdown }
+    };
+  }
+
+  return { breakdown };
+}
@@ -0,0 +1,58 @@
+import express, { type Response } from 'express';
+import type { Product } from '../core/model/product';
+import { getUserId } from './auth';
+import { loadCatalog } from './catalog';
+import { giftCards } from './gift-card-store';
+import { JsonStore } from './json-store';
+import { PlacedOrder, placeOrder, quoteOrder } from './order-placement';
+
+const stores = {
+  orders: new JsonStore<PlacedOrder>('orders'),
+  promotionUsage: new JsonStore<Record<string, number>>('promotion-usage'),
+  giftCards
+};
+
+/**
+ * Order API (checks in order-placement.ts)
+ *
+ * POST /api/orders/quote - re-price an order ({ items, discountCodes, destination, shippingMethodId, totals })
+ * with the server's catalog, promotions, shipping and tax tables. Responds with the
+ * breakdown when the totals match what the shopper was shown, 409 when they don't.
+ * POST /api/orders       - place an order ({ orderId, giftCards?, ...quote }): the same checks, then
+ * its gift cards are charged (at most the re-priced total, every card or none) and the codes it
+ * used count towards their per-user limits. Responds 201 with { id, createdAt, giftCards, breakdown },
+ * or 200 with the recorded order when the same shopper places the same id again.
+ *
+ * Both refuse quantities over a product's stock or per-order limit (shared with bundles
+ * containing it), codes that can't be combined, and codes the user has used up.
+ */
+export const ordersRouter = express.Router();
+
+ordersRouter.post('/quote', async (req, res) => {
+  const userId = await getUserId(req);
+  const catalog = await loadCatalogOrRespond(res);
+  if (!catalog) return;
+
+  const { status, body } = quoteOrder(req.body ?? {}, userId, catalog, stores);
+  res.status(status).json(body);
+});
+
+ordersRouter.post('/', async (req, res) => {
+  const userId = await getUserId(req);
+  const catalog = await loadCatalogOrRespond(res);
+  if (!catalog) return;
+
+  // placeOrder doesn't await, so another order can't spend the same codes or balances halfway through
+  const { status, body } = placeOrder(req.body ?? {}, userId, catalog, stores);
+  res.status(status).json(body);
+});
+
+async function loadCatalogOrRespond(res: Response): Promise<Product[] | null> {
+  try {
+    return await loadCatalog();
+  } catch (error) {
+    console.error('Error loading catalog:', error);
+    res.status(503).json({ message: "Prices can't be checked right now. Please try again." });
+    return null;
+  }
+}
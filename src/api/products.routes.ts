@@ -0,0 +1,36 @@
+import express from 'express';
+import { parseProductQuery, queryProducts } from '../utils/product-query';
+import { loadCatalog } from './catalog';
+
+/**
+ * Catalog API - the same products the server prices orders with
+ *
+ * GET /api/products     - one page of products, bundles included, as { data, page, limit, total, facets }
+ *                         Query: page, limit (max 100), sort (featured | price_asc | price_desc | rating | newest | title),
+ *                         q, category, kind (product | bundle), minPrice, maxPrice (exclusive), minRating, inStock (true | false)
+ * GET /api/products/:id - one product
+ */
+export const productsRouter = express.Router();
+
+productsRouter.get('/', async (req, res) => {
+  try {
+    res.json(queryProducts(await loadCatalog(), parseProductQuery(req.query)));
+  } catch (error) {
+    console.error('Error loading catalog:', error);
+    res.status(503).json({ message: "Products can't be loaded right now. Please try again." });
+  }
+});
+
+productsRouter.get('/:id', async (req, res) => {
+  try {
+    const product = (await loadCatalog()).find(p => p.id === Number(req.params.id));
+    if (!product) {
+      res.status(404).json({ message: 'Product not found' });
+      return;
+    }
+    res.json(product);
+  } catch (error) {
+    console.error('Error loading catalog:', error);
+    res.status(503).json({ message: "Products can't be loaded right now. Please try again." });
+  }
+});
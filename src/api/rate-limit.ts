@@ -0,0 +1,31 @@
+import type { RequestHandler } from 'express';
+
+/**
+ * Limit how many requests one client (by IP) may make per time window
+ * Counts are kept in memory, so they start over when the server restarts.
+ * @param windowMs - Length of a window
+ * @param max - Requests allowed per client in a window
+ */
+export function rateLimit(windowMs: number, max: number): RequestHandler {
+  const clients = new Map<string, { count: number; resetAt: number }>();
+
+  return (req, res, next) => {
+    const now = Date.now();
+    const key = req.ip ?? 'unknown';
+    let client = clients.get(key);
+
+    if (!client || client.resetAt <= now) {
+      // Forget finished windows so the map doesn't grow with every visitor
+      clients.forEach((entry, ip) => entry.resetAt <= now && clients.delete(ip));
+      client = { count: 0, resetAt: now + windowMs };
+      clients.set(key, client);
+    }
+
+    if (++client.count > max) {
+      res.setHeader('Retry-After', String(Math.ceil((client.resetAt - now) / 1000)));
+      res.status(429).json({ message: 'Too many requests. Please try again later.' });
+      return;
+    }
+    next();
+  };
+}
@@ -4,11 +4,14 @@ import { HomeComponent } from '../Features/home/home.component';
 import { ProductsComponent } from '../Features/products/products.component';
 import { DetailsComponent } from '../Features/details/details.component';
 import { CategoriesComponent } from '../Features/categories/categories.component';
+import { CategoryComponent } from '../Features/category/category.component';
 import { BrandsComponent } from '../Features/brands/brands.component';
 import { CheckoutComponent } from '../Features/checkout/checkout.component';
 import { CartComponent } from '../Features/cart/cart.component';
+import { CartImportComponent } from '../Features/cart-import/cart-import.component';
 import { NotfoundComponent } from '../Features/notfound/notfound.component';
 import { OrdersComponent } from '../Features/orders/orders.component';
+import { SearchComponent } from '../Features/search/search.component';
 import { AuthLayout } from '../core/layouts/auth-layout/auth-layout';
 import { BlankLayout } from '../core/layouts/blank-layout/blank-layout';
 import { Login } from '../core/auth/login/login';
@@ -33,11 +36,14 @@ export const routes: Routes = [
 			{ path: 'home', component: HomeComponent, title: 'Home Page' },
 			{ path: 'brands', component: BrandsComponent, title: 'Brands Page' },
 			{ path: 'categories', component: CategoriesComponent, title: 'Categories Page' },
+			{ path: 'categories/:slug', component: CategoryComponent, title: 'Category Page' },
 			{ path: 'checkout', component: CheckoutComponent, title: 'Checkout Page' },
 			{ path: 'cart', component: CartComponent, title: 'Shopping Cart' },
+			{ path: 'cart/import', component: CartImportComponent, title: 'Shared Cart' },
 			{ path: 'orders', component: OrdersComponent, title: 'My Orders' },
 			{ path: 'details/:id', component: DetailsComponent, title: 'Details Page' },
 			{ path: 'products', component: ProductsComponent, title: 'Products Page' },
+			{ path: 'search', component: SearchComponent, title: 'Search Results' },
 			{ path: 'notfound', component: NotfoundComponent, title: 'Notfound Page' },
 		],
 	},
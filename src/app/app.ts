@@ -3,11 +3,12 @@ import { RouterOutlet } from '@angular/router';
 import { FooterComponent } from "../shared/components/footer/footer.component";
 import { ToastComponent } from "../shared/components/toast/toast.component";
 import { NgxSpinnerModule } from 'ngx-spinner';
+import { ConsentBannerComponent } from '../shared/components/consent-banner/consent-banner.component';
 
 
 @Component({
   selector: 'app-root',
-  imports: [RouterOutlet, FooterComponent, ToastComponent,NgxSpinnerModule],
+  imports: [RouterOutlet, FooterComponent, ToastComponent,NgxSpinnerModule, ConsentBannerComponent],
   templateUrl: './app.html',
   styleUrl: './app.css'
 })
@@ -4,6 +4,8 @@ import { Auth } from '../services/auth';
 import { Router, RouterLink } from '@angular/router';
 import { NgClass, NgIf, NgFor } from '@angular/common';
 import { Subscription } from 'rxjs';
+import { CookieService } from 'ngx-cookie-service';
+import { CartService } from '../../services/cart.service';
 
 @Component({
   selector: 'app-login',
@@ -16,6 +18,8 @@ export class Login implements OnInit, OnDestroy {
 
   private readonly auth   = inject(Auth);
   private readonly router = inject(Router);
+  private readonly cookieService = inject(CookieService);
+  private readonly cartService   = inject(CartService);
 
   LoginForm!: FormGroup;
   isLoading:    boolean = false;
@@ -56,6 +60,8 @@ export class Login implements OnInit, OnDestroy {
       next: (response) => {
         if (response.message === 'success') {
           localStorage.setItem('userToken', response.token);
+          this.cookieService.set('token', response.token, { path: '/' });
+          this.cartService.syncWithAccount();
           this.router.navigate(['/home']);
         }
         this.isLoading = false;
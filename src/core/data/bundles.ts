@@ -0,0 +1,35 @@
+import { Product } from '../model/product';
+
+/**
+ * Bundles of catalog products sold together at a discount
+ * Ids start at 101 so they never clash with catalog products. Components
+ * copy the title, image and price of the product they refer to; their
+ * stock and limits are the product's own (see INVENTORY).
+ */
+export const BUNDLES: Product[] = [
+  {
+    id: 101,
+    title: 'Storage Upgrade Kit',
+    price: 149.99,
+    description: 'A 1TB SanDisk SSD for speed and a 2TB WD portable drive for backups, bundled together',
+    category: 'Bundles',
+    image: 'https://fakestoreapi.com/img/61U7T1koQqL._AC_SX679_.jpg',
+    bundle: [
+      { productId: 10, title: 'SanDisk SSD PLUS 1TB Internal SSD - SATA III 6 Gb/s', image: 'https://fakestoreapi.com/img/61U7T1koQqL._AC_SX679_.jpg', price: 109, quantity: 1 },
+      { productId: 9, title: 'WD 2TB Elements Portable External Hard Drive - USB 3.0', image: 'https://fakestoreapi.com/img/61IBBVJvSDL._AC_SY879_.jpg', price: 64, quantity: 1 }
+    ]
+  },
+  {
+    id: 102,
+    title: 'Backup Bundle',
+    price: 219.99,
+    description: 'A 4TB WD gaming drive and two 2TB WD portable drives, for keeping copies of everything',
+    category: 'Bundles',
+    image: 'https://fakestoreapi.com/img/61mtL65D4cL._AC_SX679_.jpg',
+    maxPerOrder: 3,
+    bundle: [
+      { productId: 12, title: 'WD 4TB Gaming Drive Works with Playstation 4 Portable External Hard Drive', image: 'https://fakestoreapi.com/img/61mtL65D4cL._AC_SX679_.jpg', price: 114, quantity: 1 },
+      { productId: 9, title: 'WD 2TB Elements Portable External Hard Drive - USB 3.0', image: 'https://fakestoreapi.com/img/61IBBVJvSDL._AC_SY879_.jpg', price: 64, quantity: 2 }
+    ]
+  }
+];
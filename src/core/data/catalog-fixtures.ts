@@ -0,0 +1,192 @@
+import { Product } from '../model/product';
+import { BUNDLES } from './bundles';
+
+/**
+ * Products bundled with the app: the catalog served by our Express API (catalog source 'local')
+ * and read directly for offline development ('fixtures').
+ * Ids and prices match the public catalog API ('remote'), so INVENTORY and the
+ * bundles in BUNDLES refer to the same products whichever source is used.
+ */
+export const CATALOG_FIXTURES: Product[] = [
+  {
+    id: 1,
+    title: 'Fjallraven - Foldsack No. 1 Backpack, Fits 15 Laptops',
+    price: 109.95,
+    description: 'Your perfect pack for everyday use and walks in the forest. Stash your laptop (up to 15 inches) in the padded sleeve, your everyday',
+    category: "men's clothing",
+    image: 'https://fakestoreapi.com/img/81fPKd-2AYL._AC_SL1500_.jpg',
+    rating: { rate: 3.9, count: 120 }
+  },
+  {
+    id: 2,
+    title: 'Mens Casual Premium Slim Fit T-Shirts',
+    price: 22.3,
+    description: 'Slim-fitting style, contrast raglan long sleeve, three-button henley placket, light weight & soft fabric for breathable and comfortable wearing.',
+    category: "men's clothing",
+    image: 'https://fakestoreapi.com/img/71-3HjGNDUL._AC_SY879._SX._UX._SY._UY_.jpg',
+    rating: { rate: 4.1, count: 259 }
+  },
+  {
+    id: 3,
+    title: 'Mens Cotton Jacket',
+    price: 55.99,
+    description: 'Great outerwear jackets for Spring/Autumn/Winter, suitable for many occasions, such as working, hiking, camping, mountain/rock climbing and cycling.',
+    category: "men's clothing",
+    image: 'https://fakestoreapi.com/img/71li-ujtlUL._AC_UX679_.jpg',
+    rating: { rate: 4.7, count: 500 }
+  },
+  {
+    id: 4,
+    title: 'Mens Casual Slim Fit',
+    price: 15.99,
+    description: 'The color could be slightly different between on the screen and in practice. Please check the size information before you buy.',
+    category: "men's clothing",
+    image: 'https://fakestoreapi.com/img/71YXzeOuslL._AC_UY879_.jpg',
+    rating: { rate: 2.1, count: 430 }
+  },
+  {
+    id: 5,
+    title: "John Hardy Women's Legends Naga Gold & Silver Dragon Station Chain Bracelet",
+    price: 695,
+    description: "From our Legends Collection, the Naga was inspired by the mythical water dragon that protects the ocean's pearl.",
+    category: 'jewelery',
+    image: 'https://fakestoreapi.com/img/71pWzhdJNwL._AC_UL640_QL65_ML3_.jpg',
+    rating: { rate: 4.6, count: 400 }
+  },
+  {
+    id: 6,
+    title: 'Solid Gold Petite Micropave',
+    price: 168,
+    description: 'Satisfaction guaranteed. Return or exchange any order within 30 days. Designed and sold by Hafeez Center in the United States.',
+    category: 'jewelery',
+    image: 'https://fakestoreapi.com/img/61sbMiUnoGL._AC_UL640_QL65_ML3_.jpg',
+    rating: { rate: 3.9, count: 70 }
+  },
+  {
+    id: 7,
+    title: 'White Gold Plated Princess',
+    price: 9.99,
+    description: 'Classic created wedding engagement solitaire diamond promise ring for her. Gifts to spoil your love more for engagement, wedding and anniversary.',
+    category: 'jewelery',
+    image: 'https://fakestoreapi.com/img/71YAIFU48IL._AC_UL640_QL65_ML3_.jpg',
+    rating: { rate: 3, count: 400 }
+  },
+  {
+    id: 8,
+    title: 'Pierced Owl Rose Gold Plated Stainless Steel Double',
+    price: 10.99,
+    description: 'Rose gold plated double flared tunnel plug earrings. Made of 316L stainless steel.',
+    category: 'jewelery',
+    image: 'https://fakestoreapi.com/img/51UDEzMJVpL._AC_UL640_QL65_ML3_.jpg',
+    rating: { rate: 1.9, count: 100 }
+  },
+  {
+    id: 9,
+    title: 'WD 2TB Elements Portable External Hard Drive - USB 3.0',
+    price: 64,
+    description: 'USB 3.0 and USB 2.0 compatibility, fast data transfers, improved PC performance and high capacity.',
+    category: 'electronics',
+    image: 'https://fakestoreapi.com/img/61IBBVJvSDL._AC_SY879_.jpg',
+    rating: { rate: 3.3, count: 203 }
+  },
+  {
+    id: 10,
+    title: 'SanDisk SSD PLUS 1TB Internal SSD - SATA III 6 Gb/s',
+    price: 109,
+    description: 'Easy upgrade for faster boot up, shutdown, application load and response. Read/write speeds of up to 535MB/s and 350MB/s.',
+    category: 'electronics',
+    image: 'https://fakestoreapi.com/img/61U7T1koQqL._AC_SX679_.jpg',
+    rating: { rate: 2.9, count: 470 }
+  },
+  {
+    id: 11,
+    title: 'Silicon Power 256GB SSD 3D NAND A55 SLC Cache Performance Boost SATA III 2.5',
+    price: 109,
+    description: '3D NAND flash delivers high transfer speeds. SLC cache technology boosts performance and extends lifespan.',
+    category: 'electronics',
+    image: 'https://fakestoreapi.com/img/71kWymZ+c+L._AC_SX679_.jpg',
+    rating: { rate: 4.8, count: 319 }
+  },
+  {
+    id: 12,
+    title: 'WD 4TB Gaming Drive Works with Playstation 4 Portable External Hard Drive',
+    price: 114,
+    description: 'Expand your PS4 gaming experience and play anywhere. Fast and easy setup, sleek design with high capacity.',
+    category: 'electronics',
+    image: 'https://fakestoreapi.com/img/61mtL65D4cL._AC_SX679_.jpg',
+    rating: { rate: 4.8, count: 400 }
+  },
+  {
+    id: 13,
+    title: 'Acer SB220Q bi 21.5 inches Full HD (1920 x 1080) IPS Ultra-Thin',
+    price: 599,
+    description: '21.5 inch Full HD widescreen IPS display with Radeon FreeSync technology and a zero-frame design.',
+    category: 'electronics',
+    image: 'https://fakestoreapi.com/img/81QpkIctqPL._AC_SX679_.jpg',
+    rating: { rate: 2.9, count: 250 }
+  },
+  {
+    id: 14,
+    title: 'Samsung 49-Inch CHG90 144Hz Curved Gaming Monitor (LC49HG90DMNXZA) - Super Ultrawide Screen QLED',
+    price: 999.99,
+    description: '49 inch super ultrawide 32:9 curved gaming monitor with dual 27 inch screen side by side, QLED and HDR support.',
+    category: 'electronics',
+    image: 'https://fakestoreapi.com/img/81Zt42ioCgL._AC_SX679_.jpg',
+    rating: { rate: 2.2, count: 140 }
+  },
+  {
+    id: 15,
+    title: "BIYLACLESEN Women's 3-in-1 Snowboard Jacket Winter Coats",
+    price: 56.99,
+    description: 'Detachable liner fabric, warm fleece. The detachable inner jacket can be worn on its own or with the outer shell.',
+    category: "women's clothing",
+    image: 'https://fakestoreapi.com/img/51Y5NI-I5jL._AC_UX679_.jpg',
+    rating: { rate: 2.6, count: 235 }
+  },
+  {
+    id: 16,
+    title: "Lock and Love Women's Removable Hooded Faux Leather Moto Biker Jacket",
+    price: 29.95,
+    description: '100% polyurethane shell, 100% polyester lining, faux leather with a detachable hood.',
+    category: "women's clothing",
+    image: 'https://fakestoreapi.com/img/81XH0e8fefL._AC_UY879_.jpg',
+    rating: { rate: 2.9, count: 340 }
+  },
+  {
+    id: 17,
+    title: 'Rain Jacket Women Windbreaker Striped Climbing Raincoats',
+    price: 39.99,
+    description: 'Lightweight, perfect for trips or casual wear. Long sleeves with a hooded adjustable drawstring waist design.',
+    category: "women's clothing",
+    image: 'https://fakestoreapi.com/img/71HblAHs5xL._AC_UY879_-2.jpg',
+    rating: { rate: 3.8, count: 679 }
+  },
+  {
+    id: 18,
+    title: "MBJ Women's Solid Short Sleeve Boat Neck V",
+    price: 9.85,
+    description: '95% rayon, 5% spandex. Made in USA or imported. Lightweight fabric with great stretch for comfort.',
+    category: "women's clothing",
+    image: 'https://fakestoreapi.com/img/71z3kpMAYsL._AC_UY879_.jpg',
+    rating: { rate: 4.7, count: 130 }
+  },
+  {
+    id: 19,
+    title: "Opna Women's Short Sleeve Moisture",
+    price: 7.95,
+    description: '100% polyester, machine wash. Lightweight, roomy and highly breathable with moisture wicking fabric.',
+    category: "women's clothing",
+    image: 'https://fakestoreapi.com/img/51eg55uWmdL._AC_UX679_.jpg',
+    rating: { rate: 4.5, count: 146 }
+  },
+  {
+    id: 20,
+    title: 'DANVOUE Womens T Shirt Casual Cotton Short Sleeve',
+    price: 12.99,
+    description: '95% cotton, 5% spandex. Casual short sleeve letter print tee, great for daily wear.',
+    category: "women's clothing",
+    image: 'https://fakestoreapi.com/img/61pHAEJ4NML._AC_UX679_.jpg',
+    rating: { rate: 3.6, count: 145 }
+  },
+  ...BUNDLES
+];
@@ -0,0 +1,40 @@
+import { Category, CategoryTheme } from '../model/category';
+
+/**
+ * Display details for known catalog categories, by lower-case category name
+ * Categories not listed here are still shown, with a title-cased name
+ * and DEFAULT_CATEGORY_THEME.
+ */
+export const CATEGORY_DETAILS: Record<string, Pick<Category, 'label' | 'description' | 'theme'>> = {
+  'electronics': {
+    label: 'Electronics',
+    description: 'Gadgets & tech accessories',
+    theme: { gradient: 'linear-gradient(135deg, #dbeafe, #ede9fe)', accent: '#6366f1', icon: 'device' }
+  },
+  'jewelery': {
+    label: 'Jewellery',
+    description: 'Elegant rings, necklaces & more',
+    theme: { gradient: 'linear-gradient(135deg, #fef3c7, #fde8d8)', accent: '#f59e0b', icon: 'gem' }
+  },
+  "men's clothing": {
+    label: "Men's Clothing",
+    description: 'Shirts, jackets & casual wear',
+    theme: { gradient: 'linear-gradient(135deg, #dcfce7, #d1fae5)', accent: '#22c55e', icon: 'shirt' }
+  },
+  "women's clothing": {
+    label: "Women's Clothing",
+    description: 'Dresses, tops & fashion trends',
+    theme: { gradient: 'linear-gradient(135deg, #fce7f3, #fdf2f8)', accent: '#ec4899', icon: 'dress' }
+  },
+  'bundles': {
+    label: 'Bundles & Kits',
+    description: 'Products that go together, for less',
+    theme: { gradient: 'linear-gradient(135deg, #fff7ed, #ffedd5)', accent: '#f97316', icon: 'gift' }
+  }
+};
+
+export const DEFAULT_CATEGORY_THEME: CategoryTheme = {
+  gradient: 'linear-gradient(135deg, #eff6ff, #dbeafe)',
+  accent: '#3b82f6',
+  icon: 'tag'
+};
@@ -0,0 +1,12 @@
+/**
+ * Countries we ship to
+ */
+export const COUNTRIES: { code: string; name: string }[] = [
+  { code: 'EG', name: 'Egypt' },
+  { code: 'SA', name: 'Saudi Arabia' },
+  { code: 'AE', name: 'United Arab Emirates' },
+  { code: 'DE', name: 'Germany' },
+  { code: 'US', name: 'United States' }
+];
+
+export const DEFAULT_COUNTRY = 'EG';
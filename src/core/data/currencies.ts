@@ -0,0 +1,23 @@
+import { Currency, CurrencyCode } from '../model/currency';
+
+/**
+ * Currency catalog prices are stored in
+ */
+export const BASE_CURRENCY: CurrencyCode = 'USD';
+
+/**
+ * Default display currency - most of our customers are in Egypt
+ */
+export const DEFAULT_CURRENCY: CurrencyCode = 'EGP';
+
+/**
+ * Supported currencies with locally configured exchange rates
+ * TODO: Refresh rates from a rates API instead of hard-coding them
+ */
+export const CURRENCIES: Currency[] = [
+  { code: 'USD', name: 'US Dollar', locale: 'en-US', rate: 1, fractionDigits: 2 },
+  { code: 'EGP', name: 'Egyptian Pound', locale: 'en-EG', rate: 48.5, fractionDigits: 2, roundingIncrement: 0.25 },
+  { code: 'EUR', name: 'Euro', locale: 'de-DE', rate: 0.92, fractionDigits: 2 },
+  { code: 'SAR', name: 'Saudi Riyal', locale: 'en-SA', rate: 3.75, fractionDigits: 2 },
+  { code: 'KWD', name: 'Kuwaiti Dinar', locale: 'en-KW', rate: 0.307, fractionDigits: 3 }
+];
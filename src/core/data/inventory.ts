@@ -0,0 +1,25 @@
+import { ProductInventory } from '../model/product';
+
+/**
+ * Stock levels and order limits by product id
+ * The catalog API has no inventory data, so it is kept here until it does.
+ * Products not listed are untracked (only MAX_QUANTITY applies).
+ */
+export const INVENTORY: Record<number, ProductInventory> = {
+  1: { stock: 4 },                                   // Fjallraven backpack
+  2: { minQuantity: 2, quantityStep: 2 },            // T-shirts, sold in packs of two
+  5: { stock: 12, maxPerOrder: 2 },                  // Dragon bracelet
+  6: { stock: 3, maxPerOrder: 1 },                   // Solid gold petite micropave
+  9: { stock: 25, maxPerOrder: 5 },                  // WD 2TB hard drive
+  14: { stock: 2 }                                   // Samsung 49-inch monitor
+};
+
+/**
+ * Fewest units left at which "only N left" is shown
+ */
+export const LOW_STOCK_THRESHOLD = 5;
+
+/**
+ * Hard ceiling for any cart line
+ */
+export const MAX_QUANTITY = 999;
@@ -0,0 +1,84 @@
+import { Promotion } from '../model/promotion';
+
+/**
+ * Promotion catalogue
+ * TODO: Replace with real API: GET /api/promotions
+ */
+export const PROMOTIONS: Promotion[] = [
+  {
+    id: '1',
+    code: 'SAVE10',
+    description: '10% off your order',
+    rule: { type: 'percentage', value: 10 },
+    stacking: 'stackable'
+  },
+  {
+    id: '2',
+    code: 'FLAT20',
+    description: '$20 off orders over $50',
+    rule: { type: 'fixed', value: 20 },
+    minSubtotal: 50,
+    stacking: 'stackable'
+  },
+  {
+    id: '3',
+    code: 'SAVE20',
+    description: '20% off, up to $50',
+    rule: { type: 'percentage', value: 20, maxDiscount: 50 },
+    stacking: 'exclusive'
+  },
+  {
+    id: '4',
+    code: 'BUY2GET1',
+    description: 'Buy 2 clothing items, get the cheapest third free',
+    rule: { type: 'buy_x_get_y', buyQuantity: 2, getQuantity: 1 },
+    scope: { categories: ["men's clothing", "women's clothing"] },
+    stacking: 'stackable'
+  },
+  {
+    id: '5',
+    code: 'SPENDMORE',
+    description: '$10 off over $100, $25 off over $200, $60 off over $400',
+    rule: {
+      type: 'tiered',
+      tiers: [
+        { minSubtotal: 100, type: 'fixed', value: 10 },
+        { minSubtotal: 200, type: 'fixed', value: 25 },
+        { minSubtotal: 400, type: 'fixed', value: 60 }
+      ]
+    },
+    stacking: 'exclusive'
+  },
+  {
+    id: '6',
+    code: 'SHINE15',
+    description: '15% off jewellery',
+    rule: { type: 'percentage', value: 15 },
+    scope: { categories: ['jewelery'] },
+    stacking: 'stackable'
+  },
+  {
+    id: '7',
+    code: 'FREESHIP',
+    description: 'Free shipping',
+    rule: { type: 'free_shipping' },
+    stacking: 'stackable'
+  },
+  {
+    id: '8',
+    code: 'WELCOME5',
+    description: '$5 off your first order',
+    rule: { type: 'fixed', value: 5 },
+    usageLimitPerUser: 1,
+    stacking: 'stackable'
+  },
+  {
+    id: '9',
+    code: 'SUMMER25',
+    description: 'Summer sale - 25% off',
+    rule: { type: 'percentage', value: 25 },
+    startsAt: '2025-06-01T00:00:00Z',
+    expiresAt: '2025-09-01T00:00:00Z',
+    stacking: 'exclusive'
+  }
+];
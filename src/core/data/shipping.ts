@@ -0,0 +1,64 @@
+import { ShippingMethod, ShippingZone } from '../model/shipping';
+
+/**
+ * Shipping zones, most specific first - the first match wins
+ * TODO: Replace with real API: GET /api/shipping/zones
+ */
+export const SHIPPING_ZONES: ShippingZone[] = [
+  { id: 'greater-cairo', name: 'Greater Cairo', country: 'EG', cities: ['cairo', 'giza', 'القاهرة', 'الجيزة'] },
+  { id: 'alexandria', name: 'Alexandria', country: 'EG', cities: ['alexandria', 'الإسكندرية'] },
+  { id: 'egypt', name: 'Rest of Egypt', country: 'EG' },
+  { id: 'gulf', name: 'Gulf', country: 'SA' },
+  { id: 'gulf', name: 'Gulf', country: 'AE' },
+  { id: 'international', name: 'International', country: '*' }
+];
+
+/**
+ * Shipping methods and their rates per zone
+ */
+export const SHIPPING_METHODS: ShippingMethod[] = [
+  {
+    id: 'standard',
+    name: 'Standard',
+    description: 'Delivered to your door',
+    rates: [
+      { zoneId: 'greater-cairo', baseRate: 5, perKg: 1, freeThreshold: 100, etaDays: [2, 3] },
+      { zoneId: 'alexandria', baseRate: 7, perKg: 1, freeThreshold: 100, etaDays: [2, 4] },
+      { zoneId: 'egypt', baseRate: 10, perKg: 1.5, freeThreshold: 150, etaDays: [3, 6] },
+      { zoneId: 'gulf', baseRate: 25, perKg: 5, freeThreshold: 400, etaDays: [5, 8] },
+      { zoneId: 'international', baseRate: 35, perKg: 8, etaDays: [7, 14] }
+    ]
+  },
+  {
+    id: 'express',
+    name: 'Express',
+    description: 'Priority handling and courier delivery',
+    rates: [
+      { zoneId: 'greater-cairo', baseRate: 15, perKg: 2, freeThreshold: 300, etaDays: [1, 1] },
+      { zoneId: 'alexandria', baseRate: 18, perKg: 2, freeThreshold: 300, etaDays: [1, 2] },
+      { zoneId: 'egypt', baseRate: 25, perKg: 3, etaDays: [2, 3] },
+      { zoneId: 'gulf', baseRate: 60, perKg: 10, etaDays: [2, 4] },
+      { zoneId: 'international', baseRate: 80, perKg: 15, etaDays: [3, 6] }
+    ]
+  },
+  {
+    id: 'pickup',
+    name: 'Store pickup',
+    description: 'Collect from our store',
+    rates: [
+      { zoneId: 'greater-cairo', baseRate: 0, perKg: 0, etaDays: [0, 1] },
+      { zoneId: 'alexandria', baseRate: 0, perKg: 0, etaDays: [1, 2] }
+    ]
+  }
+];
+
+/**
+ * Weight assumed for products without one (kg)
+ */
+export const DEFAULT_ITEM_WEIGHT = 0.5;
+
+/**
+ * Days nothing is shipped or delivered (0 = Sunday) - the Egyptian weekend
+ * Delivery estimates count business days only.
+ */
+export const WEEKEND_DAYS: number[] = [5, 6];
@@ -0,0 +1,64 @@
+import { TaxRegion } from '../model/tax';
+
+/**
+ * Tax regions, most specific first - the first match wins
+ * TODO: Replace with real API: GET /api/tax-regions
+ */
+export const TAX_REGIONS: TaxRegion[] = [
+  {
+    id: 'eg-port-said',
+    name: 'Port Said Free Zone',
+    country: 'EG',
+    cities: ['port said', 'بورسعيد'],
+    pricesIncludeTax: false,
+    rules: [
+      { label: 'Free zone duty', rate: 0.05 }
+    ]
+  },
+  {
+    id: 'eg',
+    name: 'Egypt',
+    country: 'EG',
+    pricesIncludeTax: false,
+    rules: [
+      { label: 'VAT', rate: 0.14 },
+      { label: 'Jewellery stamp duty', rate: 0.02, categories: ['jewelery'] }
+    ]
+  },
+  {
+    id: 'sa',
+    name: 'Saudi Arabia',
+    country: 'SA',
+    pricesIncludeTax: false,
+    rules: [
+      { label: 'VAT', rate: 0.15 }
+    ]
+  },
+  {
+    id: 'ae',
+    name: 'United Arab Emirates',
+    country: 'AE',
+    pricesIncludeTax: false,
+    rules: [
+      { label: 'VAT', rate: 0.05 }
+    ]
+  },
+  {
+    id: 'de',
+    name: 'Germany',
+    country: 'DE',
+    pricesIncludeTax: true,
+    rules: [
+      { label: 'MwSt.', rate: 0.19 }
+    ]
+  },
+  {
+    id: 'default',
+    name: 'International',
+    country: '*',
+    pricesIncludeTax: false,
+    rules: [
+      { label: 'Sales tax', rate: 0.10 }
+    ]
+  }
+];
@@ -8,7 +8,7 @@ export const headersInterceptor: HttpInterceptorFn = (req, next) => {
 
   if (cookieService.check('token')) {
 
-    if (req.url.includes('cart') || req.url.includes('wishlist') || req.url.includes('orders')) {
+    if (req.url.includes('cart') || req.url.includes('wishlist') || req.url.includes('orders') || req.url.includes('gift-cards')) {
       req = req.clone({
         setHeaders: {
           token: cookieService.get('token')!,
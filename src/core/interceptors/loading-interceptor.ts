@@ -1,10 +1,19 @@
 import { NgxSpinnerService } from 'ngx-spinner';
-import { HttpInterceptorFn } from '@angular/common/http';
+import { HttpContextToken, HttpInterceptorFn } from '@angular/common/http';
 import { inject } from '@angular/core';
 import { finalize } from 'rxjs';
 
+/**
+ * Set on background requests (e.g. cart sync) that shouldn't show the full-page spinner
+ */
+export const SKIP_LOADING = new HttpContextToken<boolean>(() => false);
+
 export const loadingInterceptor: HttpInterceptorFn = (req, next) => {
 
+  if (req.context.get(SKIP_LOADING)) {
+    return next(req);
+  }
+
   const ngxSpinnerService = inject(NgxSpinnerService);
 
   ngxSpinnerService.show();
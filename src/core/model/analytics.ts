@@ -0,0 +1,45 @@
+/**
+ * A commerce funnel event
+ * Amounts are in the base currency (USD)
+ */
+export type AnalyticsEvent =
+  | { type: 'product_viewed'; productId: number; title: string; price: number; category?: string; list?: string }
+  | { type: 'added_to_cart'; productId: number; title: string; price: number; quantity: number }
+  | { type: 'removed_from_cart'; productId: number; title: string; price: number; quantity: number }
+  | { type: 'discount_applied'; code: string; amount: number }
+  | { type: 'checkout_started'; itemCount: number; value: number }
+  | {
+      type: 'order_placed';
+      orderId: string;
+      value: number;
+      currency: string; // Currency the shopper paid in (value stays in USD)
+      itemCount: number;
+      paymentMethod: string;
+    };
+
+export type AnalyticsEventType = AnalyticsEvent['type'];
+
+/**
+ * An event as delivered to the sinks
+ */
+export type TrackedEvent = AnalyticsEvent & {
+  id: string;
+  sessionId: string; // One per browser tab
+  timestamp: string; // ISO
+};
+
+/**
+ * Somewhere tracked events are delivered (console, analytics API...)
+ */
+export interface AnalyticsSink {
+  readonly name: string;
+  send(event: TrackedEvent): void;
+  flush?(): void; // Deliver anything buffered now
+  clear?(): void; // Drop anything buffered (consent was withdrawn)
+}
+
+/**
+ * Whether the shopper agreed to analytics
+ * unknown - hasn't answered yet, treated as no
+ */
+export type ConsentStatus = 'granted' | 'denied' | 'unknown';
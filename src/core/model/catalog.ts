@@ -0,0 +1,89 @@
+import { Observable } from 'rxjs';
+import { Product } from './product';
+
+/**
+ * Where catalog products are read from
+ * remote   - the public catalog API (fakestoreapi.com)
+ * fixtures - products bundled with the app (a copy of the catalog API), for offline development
+ * local    - our own Express API, serving the same bundled products (see `src/api/products.routes.ts`)
+ */
+export type CatalogSource = 'remote' | 'fixtures' | 'local';
+
+/**
+ * A source of catalog products
+ * Backends return our bundles along with the catalog products. Listings
+ * from backends without queryProducts are paged by CatalogService.
+ */
+export interface CatalogBackend {
+  readonly source: CatalogSource;
+  getProducts(background: boolean): Observable<Product[]>; // background - no full-page spinner
+  getProduct(id: number): Observable<Product | undefined>; // undefined when it doesn't exist
+  queryProducts?(query: ProductQuery): Observable<ProductResults>; // Backends that filter and page on their own
+}
+
+/**
+ * Orders a product listing can be sorted in
+ * featured keeps the catalog order, newest puts the last added (highest id) first
+ */
+export type ProductSort = 'featured' | 'price_asc' | 'price_desc' | 'rating' | 'newest' | 'title';
+
+/**
+ * One page of a filtered, sorted product listing
+ */
+export interface ProductQuery {
+  page: number;  // 1-based
+  limit: number; // Products per page
+  sort: ProductSort;
+  q?: string;        // Text in the title or description
+  category?: string;
+  kind?: 'product' | 'bundle'; // Only regular products or only bundles (default: both)
+  minPrice?: number;
+  maxPrice?: number; // Exclusive, so price ranges don't overlap
+  minRating?: number;
+  inStock?: boolean; // true - only products that can be bought, false - only sold out ones
+}
+
+/**
+ * A page of results with what's needed to paginate
+ */
+export interface Page<T> {
+  data: T[];
+  page: number;
+  limit: number;
+  total: number; // Results across all pages
+}
+
+/**
+ * One value of a facet and how many products it would show
+ */
+export interface FacetOption<T> {
+  value: T;
+  count: number;
+}
+
+/**
+ * A price bucket; either end may be open
+ */
+export interface PriceRange {
+  min?: number;
+  max?: number; // Exclusive
+}
+
+/**
+ * Values the products page can be narrowed by
+ * Each facet is counted with every other filter applied but its own,
+ * so a count is what choosing that value would show.
+ */
+export interface ProductFacets {
+  categories: FacetOption<string>[];
+  prices: FacetOption<PriceRange>[];
+  ratings: FacetOption<number>[];       // Minimum rating, e.g. 4 for "4 stars & up"
+  availability: FacetOption<boolean>[]; // In stock / sold out
+}
+
+/**
+ * A page of products with the facets of the whole result
+ */
+export interface ProductResults extends Page<Product> {
+  facets: ProductFacets;
+}
@@ -0,0 +1,24 @@
+/**
+ * A product category, as listed on /categories
+ * Built from the catalog, so counts and names always match the products.
+ */
+export interface Category {
+  slug: string;        // URL segment, e.g. 'mens-clothing'
+  name: string;        // Category as it appears on products, e.g. "men's clothing"
+  label: string;       // Display name
+  description: string;
+  image: string;       // Picture of one of its products
+  count: number;       // Products in the category
+  theme: CategoryTheme;
+}
+
+/**
+ * How a category card is drawn
+ */
+export interface CategoryTheme {
+  gradient: string; // Card image background
+  accent: string;   // Icon colour
+  icon: CategoryIcon;
+}
+
+export type CategoryIcon = 'device' | 'gem' | 'shirt' | 'dress' | 'gift' | 'tag';
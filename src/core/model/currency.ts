@@ -0,0 +1,13 @@
+export type CurrencyCode = 'USD' | 'EGP' | 'EUR' | 'SAR' | 'KWD';
+
+/**
+ * A currency prices can be shown and paid in
+ */
+export interface Currency {
+  code: CurrencyCode;
+  name: string;
+  locale: string;           // Locale used to format amounts
+  rate: number;             // Units of this currency per 1 unit of the base currency
+  fractionDigits: number;   // Minor unit digits (KWD has 3)
+  roundingIncrement?: number; // Cash rounding step, e.g. 0.25 for EGP piastres
+}
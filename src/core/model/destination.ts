@@ -0,0 +1,7 @@
+/**
+ * Where an order ships to - drives tax and shipping rates
+ */
+export interface Destination {
+  country: string; // ISO 3166-1 alpha-2 code, e.g. 'EG'
+  city?: string;
+}
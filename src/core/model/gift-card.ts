@@ -0,0 +1,53 @@
+/**
+ * A gift card or store credit balance
+ * Amounts are in the base currency (USD)
+ */
+export interface GiftCard {
+  code: string;              // Normalised, e.g. "ABCD-EFGH-JKLM-NPQR"
+  initialBalance: number;
+  balance: number;
+  issuedAt: string;
+  expiresAt?: string;
+  disabled?: boolean;
+  transactions: GiftCardTransaction[];
+}
+
+/**
+ * One redemption against a gift card
+ */
+export interface GiftCardTransaction {
+  orderId: string;
+  amount: number;
+  createdAt: string;
+}
+
+/**
+ * What a balance lookup reveals about a card
+ */
+export interface GiftCardBalance {
+  code: string;
+  balance: number;
+  expiresAt?: string;
+}
+
+/**
+ * Amount to take from one gift card
+ */
+export interface GiftCardRedemption {
+  code: string;
+  amount: number;
+}
+
+/**
+ * A redemption that went through
+ */
+export interface GiftCardRedemptionResult extends GiftCardRedemption {
+  remainingBalance: number;
+}
+
+export type GiftCardRejectionReason = 'invalid_format' | 'not_found' | 'disabled' | 'expired' | 'empty' | 'insufficient_balance';
+
+export interface GiftCardRejection {
+  reason: GiftCardRejectionReason;
+  message: string;
+}
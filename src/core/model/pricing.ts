@@ -0,0 +1,127 @@
+import { CurrencyCode } from './currency';
+import { Destination } from './destination';
+import { GiftCardRedemption, GiftCardRedemptionResult } from './gift-card';
+import { SelectedOptions } from './product';
+import { Promotion } from './promotion';
+import { ShippingMethodId, ShippingQuote } from './shipping';
+import { TaxLine } from './tax';
+
+/**
+ * A line to be priced
+ */
+export interface PricingLine {
+  key: string; // Line key - product id + selected options
+  id: number;
+  price: number;
+  quantity: number;
+  category?: string; // Used by category-scoped promotions and tax rules
+  weight?: number;   // Per unit, in kg
+}
+
+/**
+ * Everything besides the lines that changes the price
+ */
+export interface PricingContext {
+  promotions: Promotion[]; // Applied codes, in the order they were applied
+  destination: Destination;
+  shippingMethodId: ShippingMethodId | null;
+  now?: Date; // For date-bound promotions (default: now)
+  currency?: CurrencyCode; // For amounts in messages and explanations (default: USD)
+}
+
+/**
+ * A promotion code applied to the cart and what it is worth right now
+ * See PromotionService / promotion-engine for the rules
+ */
+export interface Discount {
+  code: string;
+  description: string;
+  amount: number;        // Discount for the current cart
+  freeShipping: boolean;
+  active: boolean;       // False while the cart doesn't qualify (e.g. below minimum)
+  message?: string;      // Why an applied code is inactive
+}
+
+/**
+ * A line after pricing
+ */
+export interface PricedLine {
+  key: string;
+  id: number;
+  quantity: number;
+  unitPrice: number;
+  subtotal: number; // Price * Quantity
+  discount: number; // Share of the cart discounts
+  net: number;      // Subtotal - discount, the amount taxed
+}
+
+export type PricingStep = 'lines' | 'discounts' | 'shipping' | 'tax' | 'total';
+
+/**
+ * One human-readable step of how a price was reached
+ * e.g. { step: 'discounts', label: 'SAVE10', amount: -9.5, detail: '10% off everything' }
+ */
+export interface PricingExplanation {
+  step: PricingStep;
+  label: string;
+  amount: number;  // Signed effect on the total (0 for notes)
+  detail?: string;
+}
+
+/**
+ * Full result of pricing a cart or order
+ * All amounts are in USD
+ */
+export interface PriceBreakdown {
+  lines: PricedLine[];
+  subtotal: number;
+  itemCount: number;
+  discounts: Discount[];
+  discountAmount: number;
+  shippingOptions: ShippingQuote[];     // Methods available at the destination
+  shippingMethod: ShippingQuote | null; // Selected method (null if nothing ships there)
+  shippingCost: number;
+  tax: number;
+  taxRate: number;       // Effective rate over the taxable amount
+  taxLines: TaxLine[];   // Itemised taxes for the destination
+  taxInclusive: boolean; // Tax is already included in prices (not added to total)
+  taxRegion: string;
+  total: number;
+  explanations: PricingExplanation[];
+}
+
+/**
+ * Totals two price breakdowns are compared on
+ */
+export type PriceTotals = Pick<PriceBreakdown, 'subtotal' | 'discountAmount' | 'shippingCost' | 'tax' | 'total'>;
+
+/**
+ * An order sent to the server to be re-priced before it is accepted
+ * Only ids and quantities are trusted; prices come from the server's catalog.
+ */
+export interface PriceQuoteRequest {
+  items: { productId: number; quantity: number; options?: SelectedOptions }[];
+  discountCodes: string[];
+  destination: Destination;
+  shippingMethodId: ShippingMethodId | null;
+  totals: PriceTotals; // What the shopper was shown
+  currency?: CurrencyCode; // For amounts in the server's messages
+}
+
+/**
+ * An order sent to the server to be placed
+ * Checked like a quote, then its gift cards are charged and it is recorded along with the codes it used.
+ */
+export interface PlaceOrderRequest extends PriceQuoteRequest {
+  orderId: string;                  // Kept across retries so an order is never placed twice
+  giftCards?: GiftCardRedemption[]; // Amounts to take from gift cards, at most the total
+}
+
+/**
+ * What the server recorded for a placed order
+ */
+export interface PlaceOrderResponse {
+  id: string;
+  createdAt: string;
+  giftCards: GiftCardRedemptionResult[]; // What each gift card paid and has left
+}
@@ -5,6 +5,52 @@ export interface Product {
   description: string;
   category: string;
   image: string;
+  images?: string[]; // Extra gallery images (image is always shown first)
+  rating?: ProductRating;
+  weight?: number; // Shipping weight in kg
+  options?: ProductOption[]; // Variant dimensions (size, colour...) the shopper must choose
+  stock?: number;        // Units on hand (unlimited when not tracked)
+  maxPerOrder?: number;  // Most units one order may contain
+  minQuantity?: number;  // Smallest quantity that can be bought (default 1)
+  quantityStep?: number; // Quantity must grow in steps of this (e.g. packs of 2)
+  bundle?: BundleComponent[]; // Products sold together at this product's price
 }
 
+/**
+ * Average review score (0-5) and how many reviews it is based on
+ */
+export interface ProductRating {
+  rate: number;
+  count: number;
+}
+
+/**
+ * Quantity-related fields of a product, carried on its cart lines
+ */
+export type ProductInventory = Pick<Product, 'stock' | 'maxPerOrder' | 'minQuantity' | 'quantityStep'>;
+
+/**
+ * One product inside a bundle
+ * Its stock and limits are the product's own, shared with standalone lines of it
+ */
+export interface BundleComponent {
+  productId: number;
+  title: string;
+  image: string;
+  price: number;    // Price when bought on its own
+  quantity: number; // Units in one bundle
+  weight?: number;  // Per unit, in kg
+}
+
+/**
+ * A variant dimension of a product, e.g. { name: 'Size', values: ['S', 'M', 'L'] }
+ */
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
 
+/**
+ * Chosen value per option name, e.g. { Size: 'M', Colour: 'Red' }
+ */
+export type SelectedOptions = Record<string, string>;
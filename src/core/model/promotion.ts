@@ -0,0 +1,66 @@
+/**
+ * How a promotion calculates its discount
+ */
+export type PromotionRule =
+  | { type: 'percentage'; value: number; maxDiscount?: number }
+  | { type: 'fixed'; value: number }
+  | { type: 'buy_x_get_y'; buyQuantity: number; getQuantity: number; discountPercent?: number }
+  | { type: 'tiered'; tiers: PromotionTier[] }
+  | { type: 'free_shipping' };
+
+/**
+ * One step of a tiered (spend more, save more) promotion
+ */
+export interface PromotionTier {
+  minSubtotal: number;
+  type: 'percentage' | 'fixed';
+  value: number;
+}
+
+/**
+ * Restricts a promotion to some products or categories
+ * An empty or missing scope means the whole cart
+ */
+export interface PromotionScope {
+  productIds?: number[];
+  categories?: string[];
+}
+
+/**
+ * exclusive - can't be combined with any other code
+ * stackable - can be combined with other stackable codes
+ */
+export type StackingRule = 'exclusive' | 'stackable';
+
+export interface Promotion {
+  id: string;
+  code: string;
+  description: string;
+  rule: PromotionRule;
+  scope?: PromotionScope;
+  minSubtotal?: number;       // Minimum in-scope subtotal
+  startsAt?: string;          // ISO date, inclusive
+  expiresAt?: string;         // ISO date, exclusive
+  usageLimitPerUser?: number; // Orders per user that may use the code
+  stacking: StackingRule;
+}
+
+/**
+ * Why a code was not applied
+ */
+export type PromotionRejectionReason =
+  | 'invalid_format'
+  | 'not_found'
+  | 'not_started'
+  | 'expired'
+  | 'already_applied'
+  | 'not_stackable'
+  | 'usage_limit'
+  | 'sign_in_required'
+  | 'not_applicable'
+  | 'min_subtotal';
+
+export interface PromotionRejection {
+  reason: PromotionRejectionReason;
+  message: string;
+}
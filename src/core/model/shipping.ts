@@ -0,0 +1,47 @@
+export type ShippingMethodId = 'standard' | 'express' | 'pickup';
+
+/**
+ * A group of destinations sharing the same shipping rates
+ */
+export interface ShippingZone {
+  id: string;
+  name: string;
+  country: string;   // ISO code, '*' matches any country
+  cities?: string[]; // Lower-case city names
+}
+
+/**
+ * Price and delivery time of a method in one zone
+ * Cost = baseRate + perKg for every started kg after the first
+ */
+export interface ShippingRate {
+  zoneId: string;
+  baseRate: number;
+  perKg: number;
+  freeThreshold?: number; // Subtotal from which the method is free
+  etaDays: [number, number];
+}
+
+/**
+ * A delivery option; it is only offered in zones it has a rate for
+ */
+export interface ShippingMethod {
+  id: ShippingMethodId;
+  name: string;
+  description: string;
+  rates: ShippingRate[];
+}
+
+/**
+ * A priced shipping option for the current cart and destination
+ */
+export interface ShippingQuote {
+  methodId: ShippingMethodId;
+  name: string;
+  description: string;
+  cost: number;
+  freeThreshold?: number;
+  etaMinDays: number;
+  etaMaxDays: number;
+  etaLabel: string; // e.g. "2-4 business days"
+}
@@ -0,0 +1,32 @@
+/**
+ * A tax charged in a region
+ * Rules without categories apply to every product
+ */
+export interface TaxRule {
+  label: string;
+  rate: number; // Decimal, 0.14 = 14%
+  categories?: string[];
+}
+
+/**
+ * Tax configuration for a country, optionally narrowed to some cities
+ */
+export interface TaxRegion {
+  id: string;
+  name: string;
+  country: string;           // ISO code, '*' matches any country
+  cities?: string[];         // Lower-case city names
+  pricesIncludeTax: boolean; // Catalog prices are gross (tax already included)
+  rules: TaxRule[];
+}
+
+/**
+ * One itemised tax line on a cart, order or invoice
+ */
+export interface TaxLine {
+  label: string;
+  rate: number;
+  taxableAmount: number; // Net amount the rate was applied to
+  amount: number;
+  inclusive: boolean;    // Already included in item prices
+}
@@ -0,0 +1,96 @@
+import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { AnalyticsSink, TrackedEvent } from '../model/analytics';
+import { environment } from '../../environments/environment';
+
+/**
+ * Logs every event to the browser console (development builds)
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ConsoleAnalyticsSink implements AnalyticsSink {
+  readonly name = 'console';
+
+  send(event: TrackedEvent): void {
+    const { type, id, sessionId, timestamp, ...payload } = event;
+    console.info(`[analytics] ${type}`, payload);
+  }
+}
+
+/**
+ * Buffers events and POSTs them to the events API (see `src/api/events.routes.ts`)
+ * A batch goes out when it is full, after a short delay, or when the page is hidden.
+ * Uses fetch with keepalive rather than HttpClient so the last batch survives the
+ * page closing and failures stay silent (no error toast, no loading spinner).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class BatchAnalyticsSink implements AnalyticsSink {
+  readonly name = 'batch';
+
+  private readonly MAX_BUFFER = 200; // Oldest events are dropped past this while offline
+
+  private buffer: TrackedEvent[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private isBrowser: boolean;
+
+  constructor(@Inject(PLATFORM_ID) platformId: Object) {
+    this.isBrowser = isPlatformBrowser(platformId);
+
+    if (this.isBrowser) {
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'hidden') this.flush();
+      });
+    }
+  }
+
+  send(event: TrackedEvent): void {
+    if (!this.isBrowser) return;
+
+    this.buffer = [...this.buffer, event].slice(-this.MAX_BUFFER);
+
+    if (this.buffer.length >= environment.analytics.batchSize) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), environment.analytics.flushIntervalMs);
+    }
+  }
+
+  /**
+   * POST everything buffered; failed batches are put back for the next flush
+   */
+  flush(): void {
+    this.cancelTimer();
+    if (this.buffer.length === 0) return;
+
+    const batch = this.buffer.splice(0, environment.analytics.batchSize);
+    fetch(environment.analytics.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ events: batch }),
+      keepalive: true
+    })
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        if (this.buffer.length > 0) this.flush();
+      })
+      .catch(error => {
+        console.error('Error sending analytics:', error);
+        this.buffer = [...batch, ...this.buffer].slice(-this.MAX_BUFFER);
+      });
+  }
+
+  clear(): void {
+    this.cancelTimer();
+    this.buffer = [];
+  }
+
+  private cancelTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { Injectable, Inject, InjectionToken, PLATFORM_ID, inject } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { Observable, Subject } from 'rxjs';
+import { AnalyticsEvent, AnalyticsSink, TrackedEvent } from '../model/analytics';
+import { ConsentService } from './consent.service';
+import { BatchAnalyticsSink, ConsoleAnalyticsSink } from './analytics-sinks';
+import { createAnalyticsId, createTrackedEvent } from '../../utils/analytics';
+import { environment } from '../../environments/environment';
+
+/**
+ * Sinks events are delivered to
+ * Provide your own array to replace the defaults, or call AnalyticsService.addSink.
+ */
+export const ANALYTICS_SINKS = new InjectionToken<AnalyticsSink[]>('ANALYTICS_SINKS', {
+  providedIn: 'root',
+  factory: () => [
+    ...(environment.analytics.console ? [inject(ConsoleAnalyticsSink)] : []),
+    inject(BatchAnalyticsSink)
+  ]
+});
+
+/**
+ * AnalyticsService - typed stream of commerce funnel events
+ *
+ * Components and services call track(); nothing is stamped, streamed or
+ * delivered unless the shopper has opted in (see ConsentService).
+ * Withdrawing consent drops whatever the sinks still buffer.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AnalyticsService {
+  private readonly SESSION_KEY = 'analytics_session';
+
+  private events = new Subject<TrackedEvent>();
+  private sessionId: string;
+  private isBrowser: boolean;
+
+  constructor(
+    @Inject(PLATFORM_ID) platformId: Object,
+    @Inject(ANALYTICS_SINKS) private sinks: AnalyticsSink[],
+    private consentService: ConsentService
+  ) {
+    this.isBrowser = isPlatformBrowser(platformId);
+    this.sessionId = this.loadSessionId();
+
+    this.consentService.getConsent$().subscribe(status => {
+      if (status !== 'granted') {
+        this.sinks.forEach(sink => sink.clear?.());
+      }
+    });
+  }
+
+  /**
+   * Observable for tracked (consented) events
+   */
+  getEvents$(): Observable<TrackedEvent> {
+    return this.events.asObservable();
+  }
+
+  /**
+   * Record a funnel event
+   * Dropped on the server and while the shopper hasn't opted in
+   */
+  track(event: AnalyticsEvent): void {
+    if (!this.isBrowser || !this.consentService.hasConsent()) return;
+
+    const tracked = createTrackedEvent(event, this.sessionId);
+    this.events.next(tracked);
+    this.sinks.forEach(sink => {
+      try {
+        sink.send(tracked);
+      } catch (error) {
+        console.error(`Error in analytics sink ${sink.name}:`, error);
+      }
+    });
+  }
+
+  /**
+   * Deliver another sink's events from now on
+   */
+  addSink(sink: AnalyticsSink): void {
+    this.sinks = [...this.sinks, sink];
+  }
+
+  /**
+   * Ask every sink to deliver what it buffered
+   */
+  flush(): void {
+    this.sinks.forEach(sink => sink.flush?.());
+  }
+
+  /**
+   * One session id per tab, kept across reloads
+   */
+  private loadSessionId(): string {
+    if (!this.isBrowser) return '';
+
+    try {
+      const existing = sessionStorage.getItem(this.SESSION_KEY);
+      if (existing) return existing;
+
+      const id = createAnalyticsId();
+      sessionStorage.setItem(this.SESSION_KEY, id);
+      return id;
+    } catch (error) {
+      console.error('Error loading analytics session:', error);
+      return createAnalyticsId();
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpContext } from '@angular/common/http';
+import { Observable, map } from 'rxjs';
+import { CartItem } from './cart.service';
+import { SKIP_LOADING } from '../interceptors/loading-interceptor';
+
+interface CartResponse {
+  items: CartItem[];
+}
+
+/**
+ * CartApiService - HTTP client for the account cart API (see `src/api/cart.routes.ts`)
+ * The user token is attached by `headersInterceptor` because the URL contains `cart`.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CartApiService {
+  private readonly API_URL = '/api/cart';
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * GET /api/cart - load the cart saved for the signed-in account
+   */
+  getCart(): Observable<CartItem[]> {
+    return this.http
+      .get<CartResponse>(this.API_URL, { context: this.background() })
+      .pipe(map(res => res.items));
+  }
+
+  /**
+   * PUT /api/cart - replace the account cart
+   */
+  saveCart(items: CartItem[]): Observable<CartItem[]> {
+    return this.http
+      .put<CartResponse>(this.API_URL, { items }, { context: this.background() })
+      .pipe(map(res => res.items));
+  }
+
+  private background(): HttpContext {
+    return new HttpContext().set(SKIP_LOADING, true);
+  }
+}
@@ -0,0 +1,174 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { Subject, of } from 'rxjs';
+import { CartProduct, CartService } from './cart.service';
+import { CATALOG_BACKEND } from './catalog.service';
+import { StorageSyncService } from './storage-sync.service';
+import { AnalyticsService } from './analytics.service';
+import { Product } from '../model/product';
+import { BUNDLES } from '../data/bundles';
+import { createCartItem } from '../../utils/cart-helpers';
+import { StorageSchema, createEnvelope } from '../../utils/storage-envelope';
+import { DISCOUNT_CODES_SCHEMA, cartItemsSchema } from '../../utils/storage-schemas';
+
+describe('CartService', () => {
+  const backpack: Product = { id: 1, title: 'Backpack', price: 109.95, description: '', category: "men's clothing", image: '' };
+  const jacket: Product = { id: 3, title: 'Cotton Jacket', price: 55.99, description: '', category: "men's clothing", image: '' };
+
+  let otherTabChanges: Subject<string | null>;
+  let service: CartService;
+
+  const toCartProduct = (product: Product): CartProduct => {
+    const { key, quantity, ...line } = createCartItem(product);
+    return line;
+  };
+  const cartIds = () => service.getCartItems().map(item => item.id);
+
+  // A new service reads the cart back from localStorage, like a page reload
+  const createService = (): CartService => {
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: CATALOG_BACKEND, useValue: { source: 'fixtures', getProducts: () => of([backpack, jacket]), getProduct: () => of(undefined) } },
+        { provide: StorageSyncService, useValue: { watch: () => otherTabChanges } },
+        { provide: AnalyticsService, useValue: jasmine.createSpyObj<AnalyticsService>('AnalyticsService', ['track']) }
+      ]
+    });
+    return TestBed.inject(CartService);
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    otherTabChanges = new Subject();
+    service = createService();
+  });
+
+  afterEach(() => localStorage.clear());
+
+  describe('undo / redo', () => {
+    beforeEach(() => {
+      service.addToCart(toCartProduct(backpack));
+      service.addToCart(toCartProduct(jacket));
+    });
+
+    it('reverts and re-applies the most recent change', () => {
+      service.removeFromCart('1');
+
+      expect(service.undo()).toBe('Remove Backpack');
+      expect(cartIds()).toEqual([1, 3]);
+      expect(service.redo()).toBe('Remove Backpack');
+      expect(cartIds()).toEqual([3]);
+    });
+
+    it("only undoes a toast's own command while it is the most recent", () => {
+      const removeBackpack = service.removeFromCart('1')!;
+      const removeJacket = service.removeFromCart('3')!;
+
+      // Undo on the backpack's toast must not bring the jacket back
+      expect(service.canUndoCommand(removeBackpack)).toBeFalse();
+      expect(service.undoCommand(removeBackpack)).toBeNull();
+      expect(cartIds()).toEqual([]);
+
+      expect(service.undoCommand(removeJacket)).toBe('Remove Cotton Jacket');
+      expect(cartIds()).toEqual([3]);
+      expect(service.undoCommand(removeBackpack)).toBe('Remove Backpack');
+      expect(cartIds()).toEqual([1, 3]);
+    });
+
+    it('forgets the history when items are added', () => {
+      const removeBackpack = service.removeFromCart('1')!;
+      service.addToCart(toCartProduct(jacket));
+
+      expect(service.canUndoCommand(removeBackpack)).toBeFalse();
+      expect(service.undo()).toBeNull();
+    });
+  });
+
+  describe('bundles', () => {
+    const [storageKit] = BUNDLES;
+    const drive: Product = { id: 9, title: 'WD 2TB Elements', price: 64, description: '', category: 'electronics', image: '' };
+
+    it('restores a bundle line with its contents after a reload', () => {
+      service.addToCart(toCartProduct(storageKit), 2);
+
+      const restored = createService().getCartItems();
+      expect(restored.length).toBe(1);
+      expect(restored[0]).toEqual(jasmine.objectContaining({ id: 101, quantity: 2 }));
+      expect(restored[0].bundle!.map(c => [c.productId, c.quantity])).toEqual([[10, 1], [9, 1]]);
+    });
+
+    it('shares component stock with standalone lines of the same product', () => {
+      // The drive is limited to 5 per order, bundled or not
+      expect(service.addToCart(toCartProduct(drive), 4)).toBe(4);
+      expect(service.addToCart(toCartProduct(storageKit), 3)).toBe(1);
+
+      const kitLine = service.getCartState().items.find(item => item.id === 101)!;
+      expect(kitLine.rules!.max).toBe(1);
+      service.setQuantity('9', 5);
+      expect(service.getCartItems().find(item => item.id === 9)!.quantity).toBe(4);
+    });
+  });
+
+  describe('cross-tab sync', () => {
+    // What another tab leaves in localStorage
+    const writeFromOtherTab = <T>(key: string, data: T, schema: StorageSchema<T>) =>
+      localStorage.setItem(key, JSON.stringify(createEnvelope(data, schema)));
+
+    beforeEach(() => service.addToCart(toCartProduct(backpack)));
+
+    it('reloads the cart another tab changed', () => {
+      writeFromOtherTab('shopping_cart', [createCartItem(jacket, 2)], cartItemsSchema());
+      otherTabChanges.next('shopping_cart');
+
+      expect(service.getCartItems().map(item => [item.id, item.quantity])).toEqual([[3, 2]]);
+      expect(service.getCartState().subtotal).toBe(111.98);
+    });
+
+    it('reloads codes another tab applied and forgets the local history', () => {
+      service.removeFromCart('1');
+      writeFromOtherTab('shopping_cart', [createCartItem(backpack)], cartItemsSchema());
+      writeFromOtherTab('cart_discount', ['SAVE10'], DISCOUNT_CODES_SCHEMA);
+      otherTabChanges.next(null);
+
+      expect(cartIds()).toEqual([1]);
+      expect(service.getCartState().discounts.map(d => d.code)).toEqual(['SAVE10']);
+      expect(service.undo()).toBeNull();
+    });
+
+    it('ignores keys it does not keep', () => {
+      otherTabChanges.next('user_favorites');
+      expect(cartIds()).toEqual([1]);
+    });
+  });
+
+  describe('checkout totals', () => {
+    beforeEach(() => {
+      service.addToCart(toCartProduct(backpack));
+      service.addToCart(toCartProduct(jacket));
+      service.setDestination({ country: 'EG', city: 'Cairo' });
+    });
+
+    it('adds VAT and ships free over the Cairo threshold', () => {
+      const state = service.getCartState();
+
+      expect(state.subtotal).toBe(165.94);
+      expect(state.shippingCost).toBe(0);
+      expect(state.tax).toBe(23.23); // 14% VAT
+      expect(state.total).toBe(189.17);
+    });
+
+    it('takes discounts off before tax and charges for express shipping', () => {
+      expect(service.applyDiscount('SAVE10').success).toBeTrue();
+      service.setShippingMethod('express');
+      const state = service.getCartState();
+
+      expect(state.discountAmount).toBe(16.59);
+      expect(state.shippingCost).toBe(15); // Two 0.5 kg items: within the first kg the base rate covers
+      expect(state.tax).toBe(20.91);
+      expect(state.total).toBe(185.26);
+    });
+  });
+});
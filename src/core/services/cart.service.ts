@@ -1,49 +1,109 @@
-import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
-import { BehaviorSubject, Observable, map } from 'rxjs';
+import { Injectable, Inject, PLATFORM_ID, inject } from '@angular/core';
+import { BehaviorSubject, Observable, Subject, debounceTime, map, switchMap, catchError, EMPTY, of, skip } from 'rxjs';
 import { isPlatformBrowser } from '@angular/common';
+import { CookieService } from 'ngx-cookie-service';
+import { CartApiService } from './cart-api.service';
+import { StorageSyncService } from './storage-sync.service';
+import { CatalogService } from './catalog.service';
+import { CartChange, getCartChanges, revalidateCartItems } from '../../utils/cart-revalidation';
+import { EnvelopeResult, StorageSchema, createEnvelope, readEnvelope } from '../../utils/storage-envelope';
+import { DISCOUNT_CODES_SCHEMA, cartItemsSchema } from '../../utils/storage-schemas';
+import { environment } from '../../environments/environment';
+import {
+  QuantityRules,
+  canDecreaseQuantity,
+  canIncreaseQuantity,
+  getProductInventory,
+  getQuantityRules,
+  getUnitsHeld,
+  normalizeQuantity
+} from '../../utils/quantity-rules';
+import { calculateSubtotal, createCartItem, getLineKey, mergeDuplicateItems } from '../../utils/cart-helpers';
+import { ImportLine, encodeSharedCart } from '../../utils/cart-share';
+import { BundleComponent, ProductInventory, SelectedOptions } from '../model/product';
+import { Promotion, PromotionRejectionReason } from '../model/promotion';
+import { PromotionService } from './promotion.service';
+import { AnalyticsService } from './analytics.service';
+import { CurrencyService } from './currency.service';
+import { PromotionLine } from '../../utils/promotion-engine';
+import { priceCart } from '../../utils/pricing';
+import { Discount, PriceBreakdown, PricingContext } from '../model/pricing';
+import { Destination } from '../model/destination';
+import { DEFAULT_COUNTRY } from '../data/countries';
+import { ShippingMethodId } from '../model/shipping';
 
 /**
  * Cart item interface with full pricing information
  * Represents a product in the shopping cart with calculated subtotal
+ * Stock and order limits (ProductInventory) are copied from the product
  */
-export interface CartItem {
+export interface CartItem extends ProductInventory {
+  key: string; // Line key - product id + selected options (see getLineKey)
   id: number;
   title: string;
   price: number;
   image: string;
+  category?: string; // Used by category-scoped promotions
+  weight?: number;   // Per unit, in kg - drives shipping rates
   quantity: number;
+  options?: SelectedOptions; // Chosen variant, e.g. { Size: 'M', Colour: 'Red' }
+  bundle?: BundleComponent[]; // Contents when the line is a bundle
+  previousPrice?: number; // Price before the catalog changed it, until the shopper acknowledges
+  unavailable?: boolean;  // Product was removed from the catalog
   subtotal?: number; // Price * Quantity (calculated)
+  rules?: QuantityRules; // Limits left for this line once the other lines take their stock (calculated)
 }
 
 /**
- * Discount interface for cart promotions
- * Supports both percentage and fixed amount discounts
+ * Product data needed to add a line to the cart
  */
-export interface Discount {
-  id: string;
-  code: string;
-  type: 'percentage' | 'fixed';
-  value: number;
-  maxDiscount?: number; // Maximum discount for percentage types
-  minAmount?: number;   // Minimum cart total to apply discount
-  applied: boolean;
-  expiryDate?: Date;
-}
+export type CartProduct = Omit<CartItem, 'key' | 'quantity' | 'subtotal' | 'rules' | 'previousPrice' | 'unavailable'>;
+
+/**
+ * Outcome of applying a discount code
+ */
+export type DiscountResult =
+  | { success: true; discount: Discount }
+  | { success: false; reason: PromotionRejectionReason; message: string };
 
 /**
  * Complete cart state snapshot
- * Contains all cart-related calculations for UI display
+ * The cart lines plus their price breakdown (see utils/pricing)
+ */
+export interface CartState extends PriceBreakdown {
+  items: CartItem[];
+  destination: Destination;
+}
+
+/**
+ * Cart mutations that can be undone
  */
-export interface CartState {
+export type CartCommandType = 'remove' | 'clear' | 'quantity' | 'apply_discount' | 'remove_discount';
+
+/**
+ * A recorded mutation with the cart contents before and after it
+ */
+interface CartCommand {
+  id: number;
+  type: CartCommandType;
+  label: string;
+  before: CartSnapshot;
+  after: CartSnapshot;
+}
+
+interface CartSnapshot {
   items: CartItem[];
-  subtotal: number;
-  itemCount: number;
-  discount: Discount | null;
-  discountAmount: number;
-  tax: number;
-  taxRate: number;
-  shippingCost: number;
-  total: number;
+  promotions: Promotion[];
+}
+
+/**
+ * What the UI needs to offer undo / redo
+ */
+export interface CartHistory {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null; // e.g. "Remove Backpack"
+  redoLabel: string | null;
 }
 
 @Injectable({
@@ -53,24 +113,82 @@ export class CartService {
   // Storage keys for persistence
   private readonly STORAGE_KEY = 'shopping_cart';
   private readonly DISCOUNT_KEY = 'cart_discount';
+  private readonly ACCOUNT_KEY = 'cart_account'; // Set once the local cart mirrors the account cart
+  private readonly DESTINATION_KEY = 'cart_destination';
+  private readonly SHIPPING_METHOD_KEY = 'cart_shipping_method';
+  private readonly SAVED_KEY = 'saved_for_later';
+
+  // Versioned storage formats (see utils/storage-schemas)
+  private readonly CART_SCHEMA = cartItemsSchema(environment.cartMaxAgeDays);
+  private readonly SAVED_SCHEMA = cartItemsSchema();
 
   // State management with BehaviorSubjects for reactive updates
   private cartItems = new BehaviorSubject<CartItem[]>([]);
-  private discount = new BehaviorSubject<Discount | null>(null);
+  private savedItems = new BehaviorSubject<CartItem[]>([]); // Parked lines, not part of the totals
+  private promotions = new BehaviorSubject<Promotion[]>([]); // Applied codes, in order
+  private destination = new BehaviorSubject<Destination>({ country: DEFAULT_COUNTRY });
+  private shippingMethodId = new BehaviorSubject<ShippingMethodId>('standard');
+  private readonly currencyService = inject(CurrencyService); // Needed to price the initial state
   private cartState = new BehaviorSubject<CartState>(this.getEmptyCartState());
 
-  // Configuration - easily customizable
-  private readonly TAX_RATE = 0.10; // 10% tax rate
-  private readonly SHIPPING_COST = 10; // Fixed shipping cost
-  private readonly FREE_SHIPPING_THRESHOLD = 100; // Free shipping over $100
+  // Tax rates and shipping rates are configured in core/data
+
+  // Undo / redo stacks of recorded commands (most recent last)
+  private readonly MAX_HISTORY = 50;
+  private history = new BehaviorSubject<{ undo: CartCommand[]; redo: CartCommand[] }>({ undo: [], redo: [] });
+  private isRecording = false;
+  private commandCounter = 0;
+
+  // Debounced pushes of the cart to the account cart API
+  private remoteSave$ = new Subject<CartItem[]>();
 
   private isBrowser: boolean;
 
-  constructor(@Inject(PLATFORM_ID) platformId: Object) {
+  constructor(
+    @Inject(PLATFORM_ID) platformId: Object,
+    private cartApi: CartApiService,
+    private cookieService: CookieService,
+    private promotionService: PromotionService,
+    private storageSync: StorageSyncService,
+    private catalog: CatalogService,
+    private analytics: AnalyticsService
+  ) {
     this.isBrowser = isPlatformBrowser(platformId);
     this.loadCart();
+    this.loadSavedItems();
     this.loadDiscount();
+    this.loadDestination();
+    this.loadShippingMethod();
     this.updateCartState(); // Initial state calculation
+
+    // Messages and explanations show amounts in the selected currency
+    this.currencyService.getCurrency$()
+      .pipe(skip(1))
+      .subscribe(() => this.updateCartState());
+
+    if (this.isBrowser) {
+      this.remoteSave$
+        .pipe(
+          debounceTime(300),
+          switchMap(items => this.cartApi.saveCart(items).pipe(
+            catchError(error => {
+              console.error('Error syncing cart:', error);
+              return EMPTY;
+            })
+          ))
+        )
+        .subscribe();
+
+      this.syncWithOtherTabs();
+
+      if (this.isSignedIn()) {
+        this.syncWithAccount();
+      } else {
+        this.detachAccountCart();
+        // Prices may have changed since the cart was saved
+        this.revalidateCart().subscribe();
+      }
+    }
   }
 
   // ============ PUBLIC OBSERVABLES ============
@@ -83,10 +201,36 @@ export class CartService {
   }
 
   /**
-   * Observable for applied discount
+   * Observable for lines saved for later
+   */
+  getSavedItems$(): Observable<CartItem[]> {
+    return this.savedItems.asObservable();
+  }
+
+  /**
+   * Observable for catalog changes the shopper hasn't acknowledged yet
+   */
+  getCartChanges$(): Observable<CartChange[]> {
+    return this.cartItems.pipe(map(items => getCartChanges(items)));
+  }
+
+  /**
+   * Observable for undo / redo availability
    */
-  getDiscount$(): Observable<Discount | null> {
-    return this.discount.asObservable();
+  getHistory$(): Observable<CartHistory> {
+    return this.history.pipe(map(({ undo, redo }) => ({
+      canUndo: undo.length > 0,
+      canRedo: redo.length > 0,
+      undoLabel: undo[undo.length - 1]?.label ?? null,
+      redoLabel: redo[redo.length - 1]?.label ?? null
+    })));
+  }
+
+  /**
+   * Observable for applied discount codes
+   */
+  getDiscounts$(): Observable<Discount[]> {
+    return this.cartState.pipe(map(state => state.discounts));
   }
 
   /**
@@ -137,7 +281,7 @@ export class CartService {
    * Get subtotal of all items
    */
   getSubtotal(): number {
-    return this.cartItems.value.reduce((total, item) => total + (item.price * item.quantity), 0);
+    return calculateSubtotal(this.cartItems.value);
   }
 
   /**
@@ -157,239 +301,596 @@ export class CartService {
   // ============ CART ITEM MANAGEMENT ============
 
   /**
-   * Add product to cart or increase quantity if exists
+   * Add product to cart or increase quantity if the same line exists
+   * Lines are matched on product id and selected options.
+   * The quantity is adjusted to the product's stock, limit, minimum and step,
+   * less what other lines (variants, bundles containing it) already take.
+   * @returns Units actually added (0 when the limit was already reached)
    */
-  addToCart(product: Omit<CartItem, 'quantity' | 'subtotal'>, quantity: number = 1): void {
+  addToCart(product: CartProduct, quantity: number = 1): number {
+    const key = getLineKey(product.id, product.options);
     const currentItems = this.cartItems.value;
-    const existingItem = currentItems.find(item => item.id === product.id);
+    const existingItem = currentItems.find(item => item.key === key);
+    const currentQuantity = existingItem?.quantity ?? 0;
+    const newQuantity = normalizeQuantity(currentQuantity + quantity, this.getLineRules(product, key, currentItems));
+
+    if (newQuantity <= currentQuantity) return 0;
 
     if (existingItem) {
-      existingItem.quantity += quantity;
+      existingItem.quantity = newQuantity;
     } else {
-      currentItems.push({ ...product, quantity });
+      currentItems.push({ ...product, key, quantity: newQuantity });
     }
 
     this.cartItems.next([...currentItems]);
     this.saveCart();
     this.updateCartState();
+    this.clearHistory();
+    this.trackLine('added_to_cart', product, newQuantity - currentQuantity);
+    return newQuantity - currentQuantity;
   }
 
   /**
-   * Remove item from cart completely
+   * Remove line from cart completely (undoable)
+   * @returns Id of the recorded command (see undoCommand), or null if nothing was removed
    */
-  removeFromCart(productId: number): void {
-    const filtered = this.cartItems.value.filter(item => item.id !== productId);
-    this.cartItems.next(filtered);
-    this.saveCart();
-    this.updateCartState();
+  removeFromCart(lineKey: string): number | null {
+    const item = this.cartItems.value.find(i => i.key === lineKey);
+    const commandId = this.record('remove', `Remove ${this.getLineTitle(lineKey)}`, () => this.removeLine(lineKey));
+    if (item) this.trackLine('removed_from_cart', item, item.quantity);
+    return commandId;
   }
 
   /**
-   * Increase quantity of item by 1
+   * Increase quantity of line by one step (1 unless sold in packs)
+   * Does nothing once the line is at its maximum
    */
-  increaseQuantity(productId: number): void {
-    const items = this.cartItems.value;
-    const item = items.find(i => i.id === productId);
+  increaseQuantity(lineKey: string): void {
+    const item = this.cartItems.value.find(i => i.key === lineKey);
+    const rules = item && this.getLineRules(item, lineKey);
 
-    if (item) {
-      item.quantity++;
-      this.cartItems.next([...items]);
-      this.saveCart();
-      this.updateCartState();
+    if (item && rules && canIncreaseQuantity(item.quantity, rules)) {
+      this.setLineQuantity(lineKey, item.quantity + rules.step);
+      this.trackLine('added_to_cart', item, rules.step);
     }
   }
 
   /**
-   * Decrease quantity of item by 1
-   * Removes item if quantity reaches 0
+   * Decrease quantity of line by one step
+   * Removes line if it would drop below the minimum
    */
-  decreaseQuantity(productId: number): void {
-    const items = this.cartItems.value;
-    const item = items.find(i => i.id === productId);
+  decreaseQuantity(lineKey: string): void {
+    const item = this.cartItems.value.find(i => i.key === lineKey);
 
     if (item) {
-      if (item.quantity > 1) {
-        item.quantity--;
-        this.cartItems.next([...items]);
+      const rules = this.getLineRules(item, lineKey);
+      if (canDecreaseQuantity(item.quantity, rules)) {
+        this.setLineQuantity(lineKey, item.quantity - rules.step);
+        this.trackLine('removed_from_cart', item, rules.step);
       } else {
-        this.removeFromCart(productId);
-        return;
+        this.removeFromCart(lineKey);
       }
+    }
+  }
+
+  /**
+   * Set quantity for a line, snapped to its stock, limit, minimum and step
+   * Removes the line for 0 or when nothing is left in stock
+   */
+  setQuantity(lineKey: string, quantity: number): void {
+    const item = this.cartItems.value.find(i => i.key === lineKey);
+    const allowed = item && quantity > 0 ? normalizeQuantity(quantity, this.getLineRules(item, lineKey)) : 0;
+
+    if (allowed === 0) {
+      this.removeFromCart(lineKey);
+    } else {
+      this.setLineQuantity(lineKey, allowed);
+    }
+  }
+
+  /**
+   * Clear entire cart and its discount codes (undoable)
+   * @returns Id of the recorded command, or null if the cart was already empty
+   */
+  clearCart(): number | null {
+    return this.record('clear', 'Clear cart', () => {
+      this.cartItems.next([]);
+      this.promotions.next([]);
       this.saveCart();
+      this.saveDiscount();
       this.updateCartState();
+    });
+  }
+
+  // ============ UNDO / REDO ============
+
+  /**
+   * Revert the most recent recorded mutation
+   * @returns Label of the undone command, or null if there was none
+   */
+  undo(): string | null {
+    const { undo, redo } = this.history.value;
+    const command = undo[undo.length - 1];
+    if (!command) return null;
+
+    this.restoreSnapshot(command.before);
+    this.history.next({ undo: undo.slice(0, -1), redo: [...redo, command] });
+    return command.label;
+  }
+
+  /**
+   * Revert one specific command, e.g. from the toast shown for it
+   * Only the most recent command can be reverted: undoing an older one
+   * would also throw away the changes made after it.
+   * @returns Label of the undone command, or null when it is no longer the most recent
+   */
+  undoCommand(commandId: number): string | null {
+    return this.canUndoCommand(commandId) ? this.undo() : null;
+  }
+
+  /**
+   * Whether a command is still the most recent one, so undoCommand() would revert it
+   */
+  canUndoCommand(commandId: number): boolean {
+    const { undo } = this.history.value;
+    return undo[undo.length - 1]?.id === commandId;
+  }
+
+  /**
+   * Re-apply the most recently undone mutation
+   * @returns Label of the redone command, or null if there was none
+   */
+  redo(): string | null {
+    const { undo, redo } = this.history.value;
+    const command = redo[redo.length - 1];
+    if (!command) return null;
+
+    this.restoreSnapshot(command.after);
+    this.history.next({ undo: [...undo, command], redo: redo.slice(0, -1) });
+    return command.label;
+  }
+
+  /**
+   * Forget undo / redo history
+   * Called whenever the cart changes in a way that isn't recorded (adding items,
+   * syncing, placing an order), since older snapshots would overwrite that change.
+   */
+  clearHistory(): void {
+    const { undo, redo } = this.history.value;
+    if (undo.length || redo.length) {
+      this.history.next({ undo: [], redo: [] });
     }
   }
 
   /**
-   * Set exact quantity for an item (1-999)
+   * Run a mutation and record it as an undoable command
+   * Nested calls (e.g. decrease → remove) are recorded once, as the outer command.
+   * @returns Id of the recorded command, or null when nested or nothing changed
    */
-  setQuantity(productId: number, quantity: number): void {
-    if (quantity <= 0) {
-      this.removeFromCart(productId);
-      return;
+  private record(type: CartCommandType, label: string, mutate: () => void): number | null {
+    if (this.isRecording) {
+      mutate();
+      return null;
     }
 
-    const items = this.cartItems.value;
-    const item = items.find(i => i.id === productId);
+    const before = this.takeSnapshot();
+    this.isRecording = true;
+    try {
+      mutate();
+    } finally {
+      this.isRecording = false;
+    }
+    const after = this.takeSnapshot();
 
-    if (item) {
-      item.quantity = Math.max(1, Math.min(quantity, 999));
-      this.cartItems.next([...items]);
+    if (JSON.stringify(before) === JSON.stringify(after)) return null;
+
+    const id = ++this.commandCounter;
+    const undo = [...this.history.value.undo, { id, type, label, before, after }].slice(-this.MAX_HISTORY);
+    this.history.next({ undo, redo: [] });
+    return id;
+  }
+
+  private takeSnapshot(): CartSnapshot {
+    return {
+      items: this.cartItems.value.map(item => ({ ...item })),
+      promotions: [...this.promotions.value]
+    };
+  }
+
+  private restoreSnapshot(snapshot: CartSnapshot): void {
+    this.cartItems.next(snapshot.items.map(item => ({ ...item })));
+    this.promotions.next([...snapshot.promotions]);
+    this.saveCart();
+    this.saveDiscount();
+    this.updateCartState();
+  }
+
+  /**
+   * Change a line's quantity (undoable)
+   */
+  private setLineQuantity(lineKey: string, quantity: number): void {
+    this.record('quantity', `Change quantity of ${this.getLineTitle(lineKey)}`, () => {
+      const items = this.cartItems.value.map(item => item.key === lineKey ? { ...item, quantity } : item);
+      this.cartItems.next(items);
       this.saveCart();
       this.updateCartState();
-    }
+    });
   }
 
   /**
-   * Clear entire cart
+   * Drop a line without recording it
    */
-  clearCart(): void {
-    this.cartItems.next([]);
-    this.discount.next(null);
+  private removeLine(lineKey: string): void {
+    this.cartItems.next(this.cartItems.value.filter(item => item.key !== lineKey));
+    this.saveCart();
+    this.updateCartState();
+  }
+
+  /**
+   * Report units added to or taken off a line
+   */
+  private trackLine(type: 'added_to_cart' | 'removed_from_cart', item: CartProduct, quantity: number): void {
+    if (quantity <= 0) return;
+    this.analytics.track({ type, productId: item.id, title: item.title, price: item.price, quantity });
+  }
+
+  /**
+   * Quantity limits for a line, sharing stock with the other lines
+   * @param items - Cart lines to share with (default: the current cart)
+   */
+  private getLineRules(line: CartProduct, lineKey: string, items: CartItem[] = this.cartItems.value): QuantityRules {
+    const others = items.filter(item => item.key !== lineKey);
+    return getQuantityRules(getProductInventory(line, getUnitsHeld(others)));
+  }
+
+  private getLineTitle(lineKey: string): string {
+    return this.cartItems.value.find(item => item.key === lineKey)?.title ?? 'item';
+  }
+
+  // ============ CATALOG REVALIDATION ============
+
+  /**
+   * Re-check cart prices and availability against the catalog, fetched fresh
+   * Runs when the cart is restored and before checkout.
+   * Changed lines are updated and flagged until acknowledgeChanges()
+   * @returns All unacknowledged changes (empty if the catalog can't be reached)
+   */
+  revalidateCart(): Observable<CartChange[]> {
+    if (!this.isBrowser || this.cartItems.value.length === 0) return of([]);
+
+    return this.catalog.loadProducts(true, true).pipe(
+      map(catalog => {
+        const items = revalidateCartItems(this.cartItems.value, catalog);
+        if (items.some((item, index) => item !== this.cartItems.value[index])) {
+          this.cartItems.next(items);
+          this.saveCart();
+          this.updateCartState();
+          this.clearHistory();
+        }
+        return getCartChanges(items);
+      }),
+      catchError(error => {
+        console.error('Error revalidating cart:', error);
+        return of(getCartChanges(this.cartItems.value));
+      })
+    );
+  }
+
+  /**
+   * Accept the flagged changes: unavailable lines are removed,
+   * changed prices become the prices the shopper agreed to
+   */
+  acknowledgeChanges(): void {
+    const items: CartItem[] = this.cartItems.value
+      .filter(item => !item.unavailable)
+      .map(({ previousPrice, ...item }) => item);
+
+    this.cartItems.next(items);
     this.saveCart();
-    this.saveDiscount();
     this.updateCartState();
+    this.clearHistory();
+  }
+
+  /**
+   * Whether there are changes the shopper must acknowledge before checkout
+   */
+  hasUnacknowledgedChanges(): boolean {
+    return getCartChanges(this.cartItems.value).length > 0;
+  }
+
+  // ============ SAVED FOR LATER ============
+
+  /**
+   * Move a cart line to the saved-for-later list
+   * Quantities are added together if the same line is already saved
+   */
+  moveToSaved(lineKey: string): void {
+    const item = this.cartItems.value.find(i => i.key === lineKey);
+    if (!item) return;
+
+    const { subtotal, ...line } = item;
+    this.savedItems.next(mergeDuplicateItems([...this.savedItems.value, line]));
+    this.saveSavedItems();
+    this.removeLine(lineKey);
+    this.clearHistory();
+  }
+
+  /**
+   * Move a saved line back into the cart
+   * @returns Units moved (limited by stock; the line stays saved if none fit)
+   */
+  moveToCart(lineKey: string): number {
+    const item = this.savedItems.value.find(i => i.key === lineKey);
+    if (!item) return 0;
+
+    const { key, quantity, subtotal, ...product } = item;
+    const added = this.addToCart(product, quantity);
+    if (added > 0) {
+      this.removeSavedItem(lineKey);
+    }
+    return added;
+  }
+
+  /**
+   * Delete a line from the saved-for-later list
+   */
+  removeSavedItem(lineKey: string): void {
+    this.savedItems.next(this.savedItems.value.filter(item => item.key !== lineKey));
+    this.saveSavedItems();
+  }
+
+  // ============ SHARE LINKS ============
+
+  /**
+   * Pack the cart lines and applied codes into a share token
+   * See CartImportComponent for the receiving side (/cart/import?c=token)
+   */
+  getShareToken(): string {
+    return encodeSharedCart({
+      items: this.cartItems.value.map(item => ({ id: item.id, quantity: item.quantity, options: item.options })),
+      codes: this.promotions.value.map(p => p.code)
+    });
+  }
+
+  /**
+   * Add validated lines from a share link
+   * 'replace' empties the cart (and its codes) first, 'merge' adds to it
+   * @returns Units added
+   */
+  importCart(lines: ImportLine[], mode: 'replace' | 'merge'): number {
+    if (mode === 'replace') {
+      this.clearCart();
+    }
+
+    return lines.reduce((added, line) => {
+      const { key, quantity, ...product } = createCartItem(line.product, line.quantity, line.options);
+      return added + this.addToCart(product, line.quantity);
+    }, 0);
   }
 
   // ============ DISCOUNT MANAGEMENT ============
 
   /**
    * Apply discount code to cart
-   * @returns true if discount applied successfully
+   * @returns The applied discount, or why the code was rejected
    */
-  applyDiscount(code: string): boolean {
-    // Mock discount validation - replace with API call
-    const validDiscount = this.validateDiscountCode(code);
+  applyDiscount(code: string): DiscountResult {
+    const applied = this.promotions.value;
+    const result = this.promotionService.resolve(code, this.getPromotionLines(), applied);
 
-    if (!validDiscount) {
-      return false;
+    if ('reason' in result) {
+      return { success: false, reason: result.reason, message: result.message };
     }
 
-    const subtotal = this.getSubtotal();
-    if (validDiscount.minAmount && subtotal < validDiscount.minAmount) {
-      console.warn(`Minimum cart total of $${validDiscount.minAmount} required`);
-      return false;
-    }
+    this.record('apply_discount', `Apply ${result.code}`, () => {
+      this.promotions.next([...applied, result]);
+      this.saveDiscount();
+      this.updateCartState();
+    });
 
-    validDiscount.applied = true;
-    this.discount.next(validDiscount);
-    this.saveDiscount();
-    this.updateCartState();
-    return true;
+    const discount = this.cartState.value.discounts.find(d => d.code === result.code)!;
+    this.analytics.track({ type: 'discount_applied', code: discount.code, amount: discount.amount });
+    return { success: true, discount };
   }
 
   /**
-   * Remove applied discount from cart
+   * Remove an applied discount code (undoable)
+   * @returns Id of the recorded command, or null if the code wasn't applied
    */
-  removeDiscount(): void {
-    this.discount.next(null);
-    this.saveDiscount();
-    this.updateCartState();
+  removeDiscount(code: string): number | null {
+    return this.record('remove_discount', `Remove ${code}`, () => {
+      this.promotions.next(this.promotions.value.filter(p => p.code !== code));
+      this.saveDiscount();
+      this.updateCartState();
+    });
   }
 
   /**
    * Get discount amount for current cart
    */
   getDiscountAmount(): number {
-    const disc = this.discount.value;
-    if (!disc || !disc.applied) return 0;
-
-    const subtotal = this.getSubtotal();
-    if (disc.type === 'percentage') {
-      const amount = (subtotal * disc.value) / 100;
-      return disc.maxDiscount ? Math.min(amount, disc.maxDiscount) : amount;
-    }
-    return disc.value;
+    return this.cartState.value.discountAmount;
   }
 
-  // ============ CALCULATION HELPERS ============
+  // ============ DESTINATION ============
 
   /**
-   * Calculate tax for given amount
+   * Set where the order ships to (country and city)
+   * Tax is recalculated for the destination's region
    */
-  calculateTax(amount: number): number {
-    return Math.round(amount * this.TAX_RATE * 100) / 100;
+  setDestination(destination: Destination): void {
+    const current = this.destination.value;
+    if (current.country === destination.country && current.city === destination.city) return;
+
+    this.destination.next({ ...destination });
+    this.saveDestination();
+    this.updateCartState();
   }
 
   /**
-   * Calculate shipping based on subtotal
+   * Select a shipping method (standard, express, pickup)
+   * Falls back to the first available method if it isn't offered at the destination
    */
-  calculateShipping(subtotal: number): number {
-    return subtotal >= this.FREE_SHIPPING_THRESHOLD ? 0 : this.SHIPPING_COST;
+  setShippingMethod(methodId: ShippingMethodId): void {
+    this.shippingMethodId.next(methodId);
+    this.saveShippingMethod();
+    this.updateCartState();
   }
 
+  // ============ CALCULATION HELPERS ============
+
   /**
    * Update complete cart state with all calculations
    */
   private updateCartState(): void {
     const items = this.cartItems.value;
-    const subtotal = this.getSubtotal();
-    const discountAmount = this.getDiscountAmount();
-    const tax = this.calculateTax(subtotal - discountAmount);
-    const shipping = this.calculateShipping(subtotal);
-    const total = subtotal - discountAmount + tax + shipping;
-
-    const state: CartState = {
-      items: items.map(item => ({ ...item, subtotal: item.price * item.quantity })),
-      subtotal,
-      itemCount: this.getCartItemCount(),
-      discount: this.discount.value,
-      discountAmount,
-      tax,
-      taxRate: this.TAX_RATE,
-      shippingCost: shipping,
-      total: Math.round(total * 100) / 100
+    const breakdown = priceCart(items, this.getPricingContext());
+
+    this.cartState.next({
+      ...breakdown,
+      items: items.map((item, index) => ({
+        ...item,
+        subtotal: breakdown.lines[index].subtotal,
+        rules: this.getLineRules(item, item.key, items)
+      })),
+      destination: this.destination.value
+    });
+  }
+
+  /**
+   * Applied codes, destination and shipping method the cart is priced with
+   */
+  private getPricingContext(): PricingContext {
+    return {
+      promotions: this.promotions.value,
+      destination: this.destination.value,
+      shippingMethodId: this.shippingMethodId.value,
+      currency: this.currencyService.getCurrency().code
     };
+  }
 
-    this.cartState.next(state);
+  /**
+   * Cart lines in the shape the promotion engine expects
+   */
+  private getPromotionLines(): PromotionLine[] {
+    return this.cartItems.value.map(item => ({
+      key: item.key,
+      id: item.id,
+      category: item.category,
+      price: item.price,
+      quantity: item.quantity
+    }));
   }
 
   /**
-   * Get empty state template
+   * State of an empty cart at the current destination
    */
   private getEmptyCartState(): CartState {
     return {
+      ...priceCart([], this.getPricingContext()),
       items: [],
-      subtotal: 0,
-      itemCount: 0,
-      discount: null,
-      discountAmount: 0,
-      tax: 0,
-      taxRate: this.TAX_RATE,
-      shippingCost: 0,
-      total: 0
+      destination: this.destination.value
     };
   }
 
-  // ============ MOCK DISCOUNT VALIDATION ============
+  // ============ ACCOUNT CART SYNC ============
 
   /**
-   * Mock discount code validation
-   * TODO: Replace with real API: GET /api/discounts/:code
+   * Load the account cart from the API (call after login)
+   * The first time a device syncs, its guest cart is merged into the
+   * account cart (quantities of the same product are added together).
+   * After that the local cart is just a mirror and is replaced.
    */
-  private validateDiscountCode(code: string): Discount | null {
-    const validCodes: { [key: string]: Discount } = {
-      'SAVE10': { id: '1', code: 'SAVE10', type: 'percentage', value: 10, applied: false },
-      'FLAT20': { id: '2', code: 'FLAT20', type: 'fixed', value: 20, minAmount: 50, applied: false },
-      'SAVE20': { id: '3', code: 'SAVE20', type: 'percentage', value: 20, maxDiscount: 50, applied: false }
-    };
+  syncWithAccount(): void {
+    if (!this.isBrowser || !this.isSignedIn()) return;
+
+    this.cartApi.getCart().subscribe({
+      next: remoteItems => {
+        const guestItems = this.isAccountCart() ? [] : this.cartItems.value;
+        const merged = mergeDuplicateItems([...remoteItems, ...guestItems])
+          .reduce((lines: CartItem[], item: CartItem) => {
+            const quantity = normalizeQuantity(item.quantity, this.getLineRules(item, item.key, lines));
+            return quantity > 0 ? [...lines, { ...item, quantity }] : lines;
+          }, []);
+
+        this.cartItems.next(merged);
+        localStorage.setItem(this.ACCOUNT_KEY, 'true');
+        this.saveCart();
+        this.updateCartState();
+        this.clearHistory();
+        this.revalidateCart().subscribe();
+      },
+      error: error => {
+        console.error('Error loading account cart:', error);
+        this.revalidateCart().subscribe();
+      }
+    });
+  }
+
+  /**
+   * Drop the local mirror of an account cart once the user is signed out
+   * The account cart itself stays on the server for the next login
+   */
+  private detachAccountCart(): void {
+    if (!this.isAccountCart()) return;
 
-    return validCodes[code.toUpperCase()] || null;
+    localStorage.removeItem(this.ACCOUNT_KEY);
+    this.cartItems.next([]);
+    this.saveCart();
+    this.updateCartState();
+    this.clearHistory();
+  }
+
+  /**
+   * Whether a user token is present
+   */
+  private isSignedIn(): boolean {
+    return this.cookieService.check('token');
+  }
+
+  /**
+   * Whether the local cart has already been merged into the account cart
+   */
+  private isAccountCart(): boolean {
+    return localStorage.getItem(this.ACCOUNT_KEY) === 'true';
+  }
+
+  // ============ CROSS-TAB SYNC ============
+
+  /**
+   * Reload state another tab wrote to localStorage
+   * Last write wins (see StorageSyncService). Nothing is written back, and
+   * the account cart was already pushed by the tab that made the change.
+   */
+  private syncWithOtherTabs(): void {
+    this.storageSync
+      .watch([this.STORAGE_KEY, this.SAVED_KEY, this.DISCOUNT_KEY, this.DESTINATION_KEY, this.SHIPPING_METHOD_KEY])
+      .subscribe(key => {
+        if (key === null || key === this.STORAGE_KEY) this.loadCart();
+        if (key === null || key === this.SAVED_KEY) this.loadSavedItems();
+        if (key === null || key === this.DISCOUNT_KEY) this.loadDiscount();
+        if (key === null || key === this.DESTINATION_KEY) this.loadDestination();
+        if (key === null || key === this.SHIPPING_METHOD_KEY) this.loadShippingMethod();
+        if (key === null || key === this.STORAGE_KEY || key === this.DISCOUNT_KEY) this.clearHistory();
+        this.updateCartState();
+      });
   }
 
   // ============ PERSISTENCE (localStorage) ============
 
   /**
    * Load cart from localStorage (SSR-safe)
+   * Abandoned carts expire after environment.cartMaxAgeDays, taking their codes with them
    */
   private loadCart(): void {
     if (!this.isBrowser) return;
 
     try {
-      const savedCart = localStorage.getItem(this.STORAGE_KEY);
-      if (savedCart) {
-        this.cartItems.next(JSON.parse(savedCart));
+      const result = this.readStored(this.STORAGE_KEY, this.CART_SCHEMA);
+      if (result.status === 'expired') {
+        localStorage.removeItem(this.DISCOUNT_KEY);
       }
+      this.cartItems.next(mergeDuplicateItems(result.data ?? []));
     } catch (error) {
       console.error('Error loading cart:', error);
       this.cartItems.next([]);
@@ -398,61 +899,159 @@ export class CartService {
 
   /**
    * Save cart to localStorage (SSR-safe)
+   * Also pushes it to the account cart once the device has synced
    */
   private saveCart(): void {
     if (!this.isBrowser) return;
 
     try {
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.cartItems.value));
+      this.writeStored(this.STORAGE_KEY, this.cartItems.value, this.CART_SCHEMA);
     } catch (error) {
       console.error('Error saving cart:', error);
     }
+
+    if (this.isSignedIn() && this.isAccountCart()) {
+      this.remoteSave$.next(this.cartItems.value);
+    }
+  }
+
+  /**
+   * Load saved-for-later lines from localStorage
+   */
+  private loadSavedItems(): void {
+    if (!this.isBrowser) return;
+
+    try {
+      const result = this.readStored(this.SAVED_KEY, this.SAVED_SCHEMA);
+      this.savedItems.next(mergeDuplicateItems(result.data ?? []));
+    } catch (error) {
+      console.error('Error loading saved items:', error);
+      this.savedItems.next([]);
+    }
   }
 
   /**
-   * Load discount from localStorage
+   * Save saved-for-later lines to localStorage
+   */
+  private saveSavedItems(): void {
+    if (!this.isBrowser) return;
+
+    try {
+      this.writeStored(this.SAVED_KEY, this.savedItems.value, this.SAVED_SCHEMA);
+    } catch (error) {
+      console.error('Error saving saved items:', error);
+    }
+  }
+
+  /**
+   * Load applied discount codes from localStorage
    */
   private loadDiscount(): void {
     if (!this.isBrowser) return;
 
     try {
-      const savedDiscount = localStorage.getItem(this.DISCOUNT_KEY);
-      if (savedDiscount) {
-        this.discount.next(JSON.parse(savedDiscount));
-      }
+      const codes = this.readStored(this.DISCOUNT_KEY, DISCOUNT_CODES_SCHEMA).data ?? [];
+
+      this.promotions.next(
+        codes
+          .map(code => this.promotionService.findByCode(code))
+          .filter((promotion): promotion is Promotion => !!promotion)
+      );
     } catch (error) {
       console.error('Error loading discount:', error);
     }
   }
 
   /**
-   * Save discount to localStorage
+   * Save applied discount codes to localStorage
    */
   private saveDiscount(): void {
     if (!this.isBrowser) return;
 
     try {
-      localStorage.setItem(this.DISCOUNT_KEY, JSON.stringify(this.discount.value));
+      this.writeStored(this.DISCOUNT_KEY, this.promotions.value.map(p => p.code), DISCOUNT_CODES_SCHEMA);
     } catch (error) {
       console.error('Error saving discount:', error);
     }
   }
 
+  /**
+   * Read a versioned key, migrating old formats
+   * Expired or unreadable data is removed; partly valid data is rewritten without the bad entries
+   */
+  private readStored<T>(key: string, schema: StorageSchema<T>): EnvelopeResult<T> {
+    const result = readEnvelope(localStorage.getItem(key), schema);
+
+    if (result.status === 'expired' || result.status === 'invalid') {
+      console.warn(`Discarding ${result.status} data in ${key}`);
+      localStorage.removeItem(key);
+    } else if (result.status === 'migrated' || result.status === 'recovered') {
+      if (result.status === 'recovered') console.warn(`Recovered valid entries from ${key}`);
+      this.writeStored(key, result.data!, schema);
+    }
+
+    return result;
+  }
+
+  /**
+   * Write a value in its versioned envelope
+   */
+  private writeStored<T>(key: string, data: T, schema: StorageSchema<T>): void {
+    localStorage.setItem(key, JSON.stringify(createEnvelope(data, schema)));
+  }
+
+  /**
+   * Load shipping destination from localStorage
+   */
+  private loadDestination(): void {
+    if (!this.isBrowser) return;
+
+    try {
+      const savedDestination = localStorage.getItem(this.DESTINATION_KEY);
+      this.destination.next(savedDestination ? JSON.parse(savedDestination) : { country: DEFAULT_COUNTRY });
+    } catch (error) {
+      console.error('Error loading destination:', error);
+    }
+  }
+
+  /**
+   * Save shipping destination to localStorage
+   */
+  private saveDestination(): void {
+    if (!this.isBrowser) return;
+
+    try {
+      localStorage.setItem(this.DESTINATION_KEY, JSON.stringify(this.destination.value));
+    } catch (error) {
+      console.error('Error saving destination:', error);
+    }
+  }
+
+  /**
+   * Load selected shipping method from localStorage
+   */
+  private loadShippingMethod(): void {
+    if (!this.isBrowser) return;
+
+    const savedMethod = localStorage.getItem(this.SHIPPING_METHOD_KEY) as ShippingMethodId | null;
+    this.shippingMethodId.next(savedMethod ?? 'standard');
+  }
+
+  /**
+   * Save selected shipping method to localStorage
+   */
+  private saveShippingMethod(): void {
+    if (!this.isBrowser) return;
+
+    try {
+      localStorage.setItem(this.SHIPPING_METHOD_KEY, this.shippingMethodId.value);
+    } catch (error) {
+      console.error('Error saving shipping method:', error);
+    }
+  }
+
   // ============ API INTEGRATION READY ============
   /**
-   * TODO: Replace mock discount validation with real API
-   *
-   * applyDiscountAPI(code: string): Observable<Discount> {
-   *   return this.http.post<Discount>('/api/discounts/validate', { code })
-   *     .pipe(
-   *       tap(discount => {
-   *         discount.applied = true;
-   *         this.discount.next(discount);
-   *         this.updateCartState();
-   *       })
-   *     );
-   * }
-   *
    * getCheckoutData(): Observable<CartState> {
    *   return this.cartState.asObservable();
    * }
@@ -0,0 +1,97 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpContext, HttpErrorResponse } from '@angular/common/http';
+import { EMPTY, Observable, catchError, expand, map, of, reduce, throwError } from 'rxjs';
+import { CatalogBackend, ProductQuery, ProductResults } from '../model/catalog';
+import { Product } from '../model/product';
+import { CATALOG_FIXTURES } from '../data/catalog-fixtures';
+import { BUNDLES } from '../data/bundles';
+import { SKIP_LOADING } from '../interceptors/loading-interceptor';
+import { MAX_PAGE_SIZE, parseProductQuery, toQueryParams } from '../../utils/product-query';
+
+/**
+ * The public catalog API (fakestoreapi.com), plus our bundles
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RemoteCatalogBackend implements CatalogBackend {
+  readonly source = 'remote';
+
+  private readonly API_URL = 'https://fakestoreapi.com/products';
+
+  constructor(private http: HttpClient) {}
+
+  getProducts(background: boolean): Observable<Product[]> {
+    return this.http
+      .get<Product[]>(this.API_URL, { context: new HttpContext().set(SKIP_LOADING, background) })
+      .pipe(map(products => [...products, ...BUNDLES]));
+  }
+
+  getProduct(id: number): Observable<Product | undefined> {
+    const bundle = BUNDLES.find(p => p.id === id);
+    if (bundle) return of(bundle);
+
+    // Unknown ids come back as an empty 200 response
+    return this.http.get<Product | null>(`${this.API_URL}/${id}`).pipe(map(product => product ?? undefined));
+  }
+}
+
+/**
+ * Products bundled with the app - works offline, never fails
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FixtureCatalogBackend implements CatalogBackend {
+  readonly source = 'fixtures';
+
+  getProducts(): Observable<Product[]> {
+    return of(CATALOG_FIXTURES);
+  }
+
+  getProduct(id: number): Observable<Product | undefined> {
+    return of(CATALOG_FIXTURES.find(p => p.id === id));
+  }
+}
+
+/**
+ * Our Express API (see `src/api/products.routes.ts`), which serves bundles itself
+ * and filters, sorts, pages and counts listings on the server
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class LocalCatalogBackend implements CatalogBackend {
+  readonly source = 'local';
+
+  private readonly API_URL = '/api/products';
+
+  constructor(private http: HttpClient) {}
+
+  getProducts(background: boolean): Observable<Product[]> {
+    const getPage = (page: number) => this.getPage({ ...parseProductQuery({}), page, limit: MAX_PAGE_SIZE }, background);
+
+    // Follow the pages until every product is loaded
+    return getPage(1).pipe(
+      expand(res => res.page * res.limit < res.total ? getPage(res.page + 1) : EMPTY),
+      reduce((products: Product[], res) => [...products, ...res.data], [])
+    );
+  }
+
+  queryProducts(query: ProductQuery): Observable<ProductResults> {
+    return this.getPage(query, false);
+  }
+
+  getProduct(id: number): Observable<Product | undefined> {
+    return this.http.get<Product>(`${this.API_URL}/${id}`).pipe(
+      catchError((error: HttpErrorResponse) => error.status === 404 ? of(undefined) : throwError(() => error))
+    );
+  }
+
+  private getPage(query: ProductQuery, background: boolean): Observable<ProductResults> {
+    return this.http.get<ProductResults>(this.API_URL, {
+      params: toQueryParams(query),
+      context: new HttpContext().set(SKIP_LOADING, background)
+    });
+  }
+}
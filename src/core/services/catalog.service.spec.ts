@@ -0,0 +1,58 @@
+import { TestBed } from '@angular/core/testing';
+import { Observable, of, throwError } from 'rxjs';
+import { CatalogBackend } from '../model/catalog';
+import { Product } from '../model/product';
+import { CATALOG_BACKEND, CatalogService } from './catalog.service';
+
+describe('CatalogService', () => {
+  const product: Product = { id: 1, title: 'Backpack', price: 109.95, description: '', category: "men's clothing", image: '' };
+
+  let backend: jasmine.SpyObj<CatalogBackend>;
+  let service: CatalogService;
+
+  beforeEach(() => {
+    backend = jasmine.createSpyObj<CatalogBackend>('CatalogBackend', ['getProducts', 'getProduct']);
+    backend.getProducts.and.returnValue(of([product]));
+    TestBed.configureTestingModule({
+      providers: [{ provide: CATALOG_BACKEND, useValue: backend }]
+    });
+    service = TestBed.inject(CatalogService);
+  });
+
+  it('loads the catalog once and serves it from memory', () => {
+    service.loadProducts().subscribe();
+    service.loadProducts().subscribe();
+
+    expect(backend.getProducts).toHaveBeenCalledTimes(1);
+  });
+
+  it('goes back to the backend when a refresh is requested', () => {
+    service.loadProducts().subscribe();
+    service.loadProducts(true, true).subscribe();
+
+    expect(backend.getProducts).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns the same object from the list and by id', () => {
+    let listed: Product[] = [];
+    let single: Product | undefined;
+    service.loadProducts().subscribe(products => listed = products);
+    service.getProduct(1).subscribe(p => single = p);
+
+    expect(single).toBe(listed[0]);
+    expect(backend.getProduct).not.toHaveBeenCalled();
+  });
+
+  it('reports errors and stops loading when the backend fails', () => {
+    backend.getProducts.and.returnValue(throwError(() => new Error('offline')) as Observable<Product[]>);
+    const states: boolean[] = [];
+    const errors: (string | null)[] = [];
+    service.getLoading$().subscribe(loading => states.push(loading));
+    service.getError$().subscribe(message => errors.push(message));
+
+    service.loadProducts().subscribe({ error: () => undefined });
+
+    expect(errors).toEqual([null, null, 'Failed to load products']); // Cleared when the load starts
+    expect(states).toEqual([false, true, false]);
+  });
+});
@@ -0,0 +1,159 @@
+import { Injectable, Inject, InjectionToken, inject } from '@angular/core';
+import { BehaviorSubject, Observable, catchError, defer, finalize, map, of, shareReplay, tap, throwError } from 'rxjs';
+import { CatalogBackend, ProductQuery, ProductResults } from '../model/catalog';
+import { Product } from '../model/product';
+import { FixtureCatalogBackend, LocalCatalogBackend, RemoteCatalogBackend } from './catalog-backends';
+import { environment } from '../../environments/environment';
+import { queryProducts } from '../../utils/product-query';
+
+/**
+ * Backend the catalog reads from, picked by environment.catalog.source
+ * Tests can provide their own.
+ */
+export const CATALOG_BACKEND = new InjectionToken<CatalogBackend>('CATALOG_BACKEND', {
+  providedIn: 'root',
+  factory: () => {
+    switch (environment.catalog.source) {
+      case 'fixtures': return inject(FixtureCatalogBackend);
+      case 'local': return inject(LocalCatalogBackend);
+      default: return inject(RemoteCatalogBackend);
+    }
+  }
+});
+
+/**
+ * CatalogService - the one place product data is read from
+ *
+ * Whatever the backend, the home page, product list, details page and cart
+ * get the same Product objects: the catalog is loaded once, kept in memory for
+ * environment.catalog.cacheTtlMs, and concurrent loads share one request.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CatalogService {
+  // State management
+  private products = new BehaviorSubject<Product[]>([]);
+  private loading = new BehaviorSubject<boolean>(false);
+  private error = new BehaviorSubject<string | null>(null);
+
+  private byId = new Map<number, Product>(); // Every product seen, from the list or fetched alone
+  private loadedAt: number | null = null;
+  private request$: Observable<Product[]> | null = null;
+
+  constructor(@Inject(CATALOG_BACKEND) private backend: CatalogBackend) {}
+
+  // ============ PUBLIC OBSERVABLES ============
+
+  /**
+   * Observable for the loaded catalog (empty until loadProducts() succeeds)
+   */
+  getProducts$(): Observable<Product[]> {
+    return this.products.asObservable();
+  }
+
+  /**
+   * Observable for loading state
+   */
+  getLoading$(): Observable<boolean> {
+    return this.loading.asObservable();
+  }
+
+  /**
+   * Observable for error messages
+   */
+  getError$(): Observable<string | null> {
+    return this.error.asObservable();
+  }
+
+  // ============ PRODUCT OPERATIONS ============
+
+  /**
+   * Load the whole catalog, from memory while it is fresh
+   * @param background - Don't show the full-page spinner (e.g. cart revalidation)
+   * @param refresh - Go to the backend even while the cached catalog is fresh
+   * @returns The catalog; errors when the backend fails and nothing is cached
+   */
+  loadProducts(background: boolean = false, refresh: boolean = false): Observable<Product[]> {
+    if (!refresh && this.isFresh()) return of(this.products.value);
+    if (this.request$) return this.request$;
+
+    this.loading.next(true);
+    this.error.next(null);
+
+    this.request$ = this.backend.getProducts(background).pipe(
+      map(products => products.map(product => this.remember(product))),
+      tap(products => {
+        this.products.next(products);
+        this.loadedAt = Date.now();
+      }),
+      catchError(error => {
+        this.error.next('Failed to load products');
+        // Stale products beat an empty page
+        return this.loadedAt !== null ? of(this.products.value) : throwError(() => error);
+      }),
+      finalize(() => {
+        this.loading.next(false);
+        this.request$ = null;
+      }),
+      shareReplay({ bufferSize: 1, refCount: false })
+    );
+
+    return this.request$;
+  }
+
+  /**
+   * One page of a filtered, sorted listing, with its facet counts
+   * Paged by the backend when it can, otherwise from the cached catalog
+   */
+  queryProducts(query: ProductQuery): Observable<ProductResults> {
+    if (!this.backend.queryProducts) {
+      return this.loadProducts().pipe(map(products => queryProducts(products, query)));
+    }
+
+    return defer(() => {
+      this.loading.next(true);
+      this.error.next(null);
+      return this.backend.queryProducts!(query);
+    }).pipe(
+      map(page => ({ ...page, data: page.data.map(product => this.remember(product)) })),
+      catchError(error => {
+        this.error.next('Failed to load products');
+        return throwError(() => error);
+      }),
+      finalize(() => this.loading.next(false))
+    );
+  }
+
+  /**
+   * Get a single product by id
+   * @returns The product, or undefined when the catalog has no such product
+   */
+  getProduct(id: number): Observable<Product | undefined> {
+    const known = this.byId.get(id);
+    if (known) return of(known);
+
+    return this.backend.getProduct(id).pipe(
+      map(product => product && this.remember(product))
+    );
+  }
+
+  /**
+   * Drop the cached catalog so the next load goes to the backend
+   */
+  invalidate(): void {
+    this.loadedAt = null;
+  }
+
+  private isFresh(): boolean {
+    return this.loadedAt !== null && Date.now() - this.loadedAt < environment.catalog.cacheTtlMs;
+  }
+
+  /**
+   * Keep one object per product id, so every page shares it
+   */
+  private remember(product: Product): Product {
+    this.byId.set(product.id, product);
+    return product;
+  }
+}
@@ -0,0 +1,52 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpContext } from '@angular/common/http';
+import { Observable, catchError, map, shareReplay, throwError } from 'rxjs';
+import { Category } from '../model/category';
+import { CatalogService } from './catalog.service';
+import { SKIP_LOADING } from '../interceptors/loading-interceptor';
+import { environment } from '../../environments/environment';
+import { findCategory, getCategories } from '../../utils/categories';
+
+/**
+ * CategoryService - the category list with real product counts
+ * Served by our API (see `src/api/categories.routes.ts`) when the catalog
+ * comes from it, otherwise worked out from the loaded catalog.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CategoryService {
+  private readonly API_URL = '/api/categories';
+
+  private categories$: Observable<Category[]> | null = null;
+
+  constructor(private http: HttpClient, private catalog: CatalogService) {}
+
+  /**
+   * Every category, in catalog order
+   */
+  getCategories(): Observable<Category[]> {
+    if (environment.catalog.source !== 'local') {
+      return this.catalog.loadProducts(true).pipe(map(products => getCategories(products)));
+    }
+
+    this.categories$ ??= this.http
+      .get<Category[]>(this.API_URL, { context: new HttpContext().set(SKIP_LOADING, true) })
+      .pipe(
+        catchError(error => {
+          this.categories$ = null; // Try again next time
+          return throwError(() => error);
+        }),
+        shareReplay({ bufferSize: 1, refCount: false })
+      );
+    return this.categories$;
+  }
+
+  /**
+   * One category by its URL segment
+   * @returns The category, or undefined when there is no such category
+   */
+  getCategory(slug: string | null): Observable<Category | undefined> {
+    return this.getCategories().pipe(map(categories => findCategory(categories, slug)));
+  }
+}
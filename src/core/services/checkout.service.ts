@@ -1,23 +1,84 @@
 import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
 import { CartState } from './cart.service';
-import { Observable, of } from 'rxjs';
+import { Observable, map } from 'rxjs';
+import { SelectedOptions } from '../model/product';
+import { PromotionService } from './promotion.service';
+import { TaxLine } from '../model/tax';
+import { ShippingQuote } from '../model/shipping';
+import { estimateDeliveryDate } from '../../utils/shipping';
+import { CurrencyCode } from '../model/currency';
+import { CurrencyService } from './currency.service';
+import { convertFromBase, getCurrency } from '../../utils/currency';
+import { calculateLineTotal } from '../../utils/cart-helpers';
+import { GiftCardBalance, GiftCardRedemptionResult } from '../model/gift-card';
+import { maskGiftCardCode, planGiftCardRedemptions } from '../../utils/gift-cards';
+import { subtractMoney, toMajor, toMoney } from '../../utils/money';
+import { explodeBundle, isBundle } from '../../utils/bundles';
+import { DEFAULT_COUNTRY } from '../data/countries';
+import { AnalyticsService } from './analytics.service';
+import { PlaceOrderRequest, PlaceOrderResponse, PriceBreakdown, PriceQuoteRequest, PricingExplanation } from '../model/pricing';
 
 export interface ShippingAddress {
   details: string;
   phone: string;
   city: string;
+  country?: string; // ISO code, defaults to Egypt
+}
+
+/**
+ * A product the warehouse picks for a bundle line
+ */
+export interface OrderItemComponent {
+  productId: number;
+  title: string;
+  quantity: number; // Units for the whole line
+  subtotal: number; // Share of the line subtotal
+}
+
+export interface OrderItem {
+  productId: number;
+  title: string;
+  image: string;
+  price: number;
+  quantity: number;
+  options?: SelectedOptions; // Variant the customer picked, needed for fulfilment
+  components?: OrderItemComponent[]; // Contents of a bundle line, for fulfilment
+  subtotal: number;
+}
+
+/**
+ * One way an order is paid for
+ * Gift card amounts are deducted from the card balance when the server places the order
+ */
+export interface OrderTender {
+  method: 'gift_card' | 'card' | 'cash';
+  amount: number;            // USD
+  giftCardCode?: string;     // Full code until redeemed, masked on the saved order
+  remainingBalance?: number; // Gift card balance left after this order
+  transactionId?: string;
 }
 
 export interface Order {
   id: string;
-  items: any[];
+  items: OrderItem[];
   subtotal: number;
   discountAmount: number;
+  discountCodes: string[];
   tax: number;
+  taxLines: TaxLine[];   // Itemised taxes for the invoice
+  taxInclusive: boolean; // Taxes are included in item prices
   shippingCost: number;
+  shippingMethod: ShippingQuote | null;
+  estimatedDelivery?: string; // Latest expected delivery date (ISO)
   total: number;
+  priceExplanations?: PricingExplanation[]; // How the total was reached (see utils/pricing)
+  currency?: CurrencyCode;  // Currency the customer paid in (amounts above stay in USD)
+  exchangeRate?: number;    // USD rate locked in when the order was placed
+  chargedTotal: number;     // Total in the order currency, rounded the way it is paid
   shippingAddress: ShippingAddress;
-  paymentMethod: 'cash' | 'card';
+  paymentMethod: 'cash' | 'card' | 'gift_card'; // How the amount left after gift cards is paid
+  tenders?: OrderTender[];                      // Every tender used (missing on older orders)
   paymentStatus?: 'pending' | 'paid' | 'failed';
   createdAt: string;
   transactionId?: string;
@@ -29,8 +90,14 @@ export class CheckoutService {
 
   private cartSnapshot: CartState | null = null;
   private pendingOrder: Order | null = null;
+  private orderId: string | null = null; // Reused until an order is placed, so retries can't place it twice
 
-  constructor() {}
+  constructor(
+    private http: HttpClient,
+    private promotionService: PromotionService,
+    private currencyService: CurrencyService,
+    private analytics: AnalyticsService
+  ) {}
 
   setCartSnapshot(state: CartState) {
     this.cartSnapshot = state;
@@ -48,17 +115,107 @@ export class CheckoutService {
     return this.pendingOrder;
   }
 
+  /**
+   * Build an order from a cart state snapshot
+   * Gift cards are used in the order given; paymentMethod covers what they don't.
+   * Every order built until one is placed gets the same id; createdAt is assigned by createOrder
+   */
+  buildOrder(
+    state: CartState,
+    shippingAddress: ShippingAddress,
+    paymentMethod: Order['paymentMethod'],
+    giftCards: GiftCardBalance[] = []
+  ): Order {
+    const currency = this.currencyService.getCurrency();
+    const giftCardTenders: OrderTender[] = planGiftCardRedemptions(state.total, giftCards).map(redemption => ({
+      method: 'gift_card',
+      amount: redemption.amount,
+      giftCardCode: redemption.code,
+      remainingBalance: redemption.remainingBalance
+    }));
+    const amountDue = giftCardTenders.reduce((due, tender) => subtractMoney(due, toMoney(tender.amount)), toMoney(state.total));
+    const tenders = amountDue > 0 && paymentMethod !== 'gift_card'
+      ? [...giftCardTenders, { method: paymentMethod, amount: toMajor(amountDue) }]
+      : giftCardTenders;
+
+    return {
+      id: this.orderId ??= this.generateId(),
+      items: state.items.map(item => ({
+        productId: item.id,
+        title: item.title,
+        image: item.image,
+        price: item.price,
+        quantity: item.quantity,
+        options: item.options,
+        components: isBundle(item) ? explodeBundle(item) : undefined,
+        subtotal: calculateLineTotal(item.price, item.quantity)
+      })),
+      subtotal: state.subtotal,
+      discountAmount: state.discountAmount,
+      discountCodes: state.discounts.filter(d => d.active).map(d => d.code),
+      tax: state.tax,
+      taxLines: state.taxLines,
+      taxInclusive: state.taxInclusive,
+      shippingCost: state.shippingCost,
+      shippingMethod: state.shippingMethod,
+      total: state.total,
+      priceExplanations: state.explanations,
+      currency: currency.code,
+      exchangeRate: currency.rate,
+      chargedTotal: convertFromBase(state.total, currency),
+      shippingAddress,
+      paymentMethod: amountDue > 0 ? paymentMethod : 'gift_card',
+      tenders,
+      paymentStatus: 'pending',
+      createdAt: ''
+    };
+  }
+
+  /**
+   * Amount left for the card or cash tender, in the order currency
+   */
+  getAmountDue(order: Order): number {
+    if (!order.tenders) return order.chargedTotal;
+
+    const tender = order.tenders.find(t => t.method !== 'gift_card');
+    return tender ? convertFromBase(tender.amount, getCurrency(order.currency ?? 'USD'), order.exchangeRate) : 0;
+  }
+
+  /**
+   * POST /api/orders/quote - have the server re-price the order before it is paid for
+   * Fails (409, toasted by errorInterceptor) when its catalog, codes or
+   * tables give a different total than the one the shopper was shown.
+   * @returns The order with the server's explanation of its price
+   */
+  verifyPricing(order: Order): Observable<Order> {
+    return this.http
+      .post<{ breakdown: PriceBreakdown }>('/api/orders/quote', this.toQuoteRequest(order))
+      .pipe(map(res => ({ ...order, priceExplanations: res.breakdown.explanations })));
+  }
+
+  /**
+   * POST /api/orders - place the order, then save it
+   * The orders API runs the quote checks again, charges the gift card tenders
+   * against the total it re-priced (every card or none) and counts the codes
+   * against their per-user limits. Fails without saving the order when it is
+   * refused; retrying with the same id never charges the cards twice.
+   */
   createOrder(order: Order): Observable<Order> {
-    const orders = this.loadOrders();
-    const newOrder = { ...order, id: this.generateId(), createdAt: new Date().toISOString() };
-    orders.unshift(newOrder);
-    try {
-      localStorage.setItem(this.ORDERS_KEY, JSON.stringify(orders));
-    } catch (e) {
-      console.error('Failed to save orders', e);
-    }
-    this.pendingOrder = null;
-    return of(newOrder);
+    const request: PlaceOrderRequest = {
+      ...this.toQuoteRequest(order),
+      orderId: order.id,
+      giftCards: (order.tenders ?? [])
+        .filter(tender => tender.method === 'gift_card')
+        .map(tender => ({ code: tender.giftCardCode!, amount: tender.amount }))
+    };
+
+    return this.http.post<PlaceOrderResponse>('/api/orders', request).pipe(
+      map(placed => this.saveOrder({
+        ...order,
+        tenders: order.tenders?.map(tender => this.applyRedemption(tender, placed.giftCards)),
+        paymentStatus: order.paymentMethod === 'gift_card' ? 'paid' : order.paymentStatus
+      }))
+    );
   }
 
   getOrders(): Order[] {
@@ -75,6 +232,68 @@ export class CheckoutService {
     }
   }
 
+  private saveOrder(order: Order): Order {
+    const orders = this.loadOrders();
+    const now = new Date();
+    const newOrder: Order = {
+      ...order,
+      createdAt: now.toISOString(),
+      estimatedDelivery: order.shippingMethod ? estimateDeliveryDate(order.shippingMethod, now) : undefined
+    };
+    orders.unshift(newOrder);
+    try {
+      localStorage.setItem(this.ORDERS_KEY, JSON.stringify(orders));
+    } catch (e) {
+      console.error('Failed to save orders', e);
+    }
+    this.promotionService.recordUsage(newOrder.discountCodes ?? []);
+    this.pendingOrder = null;
+    this.orderId = null;
+    this.analytics.track({
+      type: 'order_placed',
+      orderId: newOrder.id,
+      value: newOrder.total,
+      currency: newOrder.currency ?? 'USD',
+      itemCount: newOrder.items.reduce((count, item) => count + item.quantity, 0),
+      paymentMethod: newOrder.paymentMethod
+    });
+    return newOrder;
+  }
+
+  /**
+   * What the server needs to price an order: ids, quantities, codes, destination and the totals shown
+   */
+  private toQuoteRequest(order: Order): PriceQuoteRequest {
+    return {
+      items: order.items.map(item => ({ productId: item.productId, quantity: item.quantity, options: item.options })),
+      discountCodes: order.discountCodes,
+      destination: { country: order.shippingAddress.country ?? DEFAULT_COUNTRY, city: order.shippingAddress.city },
+      shippingMethodId: order.shippingMethod?.methodId ?? null,
+      totals: {
+        subtotal: order.subtotal,
+        discountAmount: order.discountAmount,
+        shippingCost: order.shippingCost,
+        tax: order.tax,
+        total: order.total
+      },
+      currency: order.currency
+    };
+  }
+
+  /**
+   * Record what a gift card tender actually took and mask its code
+   */
+  private applyRedemption(tender: OrderTender, results: GiftCardRedemptionResult[]): OrderTender {
+    if (tender.method !== 'gift_card' || !tender.giftCardCode) return tender;
+
+    const result = results.find(r => r.code === tender.giftCardCode);
+    return {
+      ...tender,
+      giftCardCode: maskGiftCardCode(tender.giftCardCode),
+      remainingBalance: result?.remainingBalance ?? tender.remainingBalance
+    };
+  }
+
   private generateId(): string {
     return 'ord_' + Math.random().toString(36).slice(2, 9);
   }
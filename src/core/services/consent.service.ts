@@ -0,0 +1,92 @@
+import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { ConsentStatus } from '../model/analytics';
+import { StorageSyncService } from './storage-sync.service';
+
+/**
+ * ConsentService - remembers whether the shopper opted in to analytics.
+ * Until they answer the status is 'unknown' and nothing is tracked.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ConsentService {
+  private readonly STORAGE_KEY = 'analytics_consent';
+
+  private isBrowser: boolean;
+  private consent: BehaviorSubject<ConsentStatus>;
+
+  constructor(
+    @Inject(PLATFORM_ID) platformId: Object,
+    storageSync: StorageSyncService
+  ) {
+    this.isBrowser = isPlatformBrowser(platformId);
+    this.consent = new BehaviorSubject<ConsentStatus>(this.loadConsent());
+
+    // Answered in another tab
+    storageSync.watch([this.STORAGE_KEY]).subscribe(() => this.consent.next(this.loadConsent()));
+  }
+
+  /**
+   * Get consent status as observable
+   */
+  getConsent$(): Observable<ConsentStatus> {
+    return this.consent.asObservable();
+  }
+
+  /**
+   * Whether analytics may be collected right now
+   */
+  hasConsent(): boolean {
+    return this.consent.value === 'granted';
+  }
+
+  /**
+   * Opt in to analytics
+   */
+  grant(): void {
+    this.setConsent('granted');
+  }
+
+  /**
+   * Opt out of analytics
+   */
+  deny(): void {
+    this.setConsent('denied');
+  }
+
+  /**
+   * Forget the answer so the shopper is asked again
+   */
+  reset(): void {
+    this.setConsent('unknown');
+  }
+
+  private setConsent(status: ConsentStatus): void {
+    this.consent.next(status);
+
+    if (!this.isBrowser) return;
+    try {
+      if (status === 'unknown') {
+        localStorage.removeItem(this.STORAGE_KEY);
+      } else {
+        localStorage.setItem(this.STORAGE_KEY, status);
+      }
+    } catch (error) {
+      console.error('Error saving consent:', error);
+    }
+  }
+
+  private loadConsent(): ConsentStatus {
+    if (!this.isBrowser) return 'unknown';
+
+    try {
+      const status = localStorage.getItem(this.STORAGE_KEY);
+      return status === 'granted' || status === 'denied' ? status : 'unknown';
+    } catch (error) {
+      console.error('Error loading consent:', error);
+      return 'unknown';
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { Currency, CurrencyCode } from '../model/currency';
+import { CURRENCIES, DEFAULT_CURRENCY } from '../data/currencies';
+import { convertFromBase, getCurrency } from '../../utils/currency';
+
+/**
+ * CurrencyService - holds the currency the shopper browses and pays in.
+ * Catalog and cart amounts stay in the base currency; conversion only
+ * happens for display and when an order is placed.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CurrencyService {
+  private readonly STORAGE_KEY = 'preferred_currency';
+
+  private isBrowser: boolean;
+  private currencySubject: BehaviorSubject<Currency>;
+
+  readonly currencies: Currency[] = CURRENCIES;
+
+  constructor(@Inject(PLATFORM_ID) platformId: Object) {
+    this.isBrowser = isPlatformBrowser(platformId);
+    this.currencySubject = new BehaviorSubject<Currency>(getCurrency(this.loadCurrency()));
+  }
+
+  /**
+   * Get selected currency as observable
+   */
+  getCurrency$(): Observable<Currency> {
+    return this.currencySubject.asObservable();
+  }
+
+  /**
+   * Get selected currency (synchronous)
+   */
+  getCurrency(): Currency {
+    return this.currencySubject.value;
+  }
+
+  /**
+   * Switch the display currency
+   */
+  setCurrency(code: CurrencyCode): void {
+    const currency = getCurrency(code);
+    this.currencySubject.next(currency);
+
+    if (!this.isBrowser) return;
+    try {
+      localStorage.setItem(this.STORAGE_KEY, currency.code);
+    } catch (error) {
+      console.error('Error saving currency:', error);
+    }
+  }
+
+  /**
+   * Convert a base-currency amount into the selected currency
+   */
+  convert(amount: number): number {
+    return convertFromBase(amount, this.getCurrency());
+  }
+
+  private loadCurrency(): CurrencyCode {
+    if (!this.isBrowser) return DEFAULT_CURRENCY;
+
+    try {
+      return (localStorage.getItem(this.STORAGE_KEY) as CurrencyCode) || DEFAULT_CURRENCY;
+    } catch (error) {
+      console.error('Error loading currency:', error);
+      return DEFAULT_CURRENCY;
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpContext } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { GiftCardBalance } from '../model/gift-card';
+import { normalizeGiftCardCode } from '../../utils/gift-cards';
+import { SKIP_LOADING } from '../interceptors/loading-interceptor';
+
+/**
+ * GiftCardService - HTTP client for the gift card API (see `src/api/gift-card.routes.ts`)
+ * Cards are issued by the back office and redeemed when an order is placed
+ * (see `CheckoutService.createOrder`), so the storefront only checks balances.
+ * Rejections come back as `{ reason, message }` and are toasted by `errorInterceptor`.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class GiftCardService {
+  private readonly API_URL = '/api/gift-cards';
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * GET /api/gift-cards/:code - current balance of a card
+   */
+  getBalance(code: string): Observable<GiftCardBalance> {
+    return this.http.get<GiftCardBalance>(`${this.API_URL}/${encodeURIComponent(normalizeGiftCardCode(code))}`, {
+      context: this.background()
+    });
+  }
+
+  private background(): HttpContext {
+    return new HttpContext().set(SKIP_LOADING, true);
+  }
+}
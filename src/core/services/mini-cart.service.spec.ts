@@ -0,0 +1,29 @@
+import { TestBed } from '@angular/core/testing';
+import { MiniCartService } from './mini-cart.service';
+
+describe('MiniCartService', () => {
+  let service: MiniCartService;
+  let states: boolean[];
+
+  beforeEach(() => {
+    service = TestBed.inject(MiniCartService);
+    states = [];
+    service.isOpen$().subscribe(open => states.push(open));
+  });
+
+  it('starts closed and toggles open and closed', () => {
+    service.toggle();
+    service.toggle();
+
+    expect(states).toEqual([false, true, false]);
+  });
+
+  it('only emits when the drawer actually opens or closes', () => {
+    service.open();
+    service.open();
+    service.close();
+    service.close();
+
+    expect(states).toEqual([false, true, false]);
+  });
+});
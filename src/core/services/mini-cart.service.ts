@@ -0,0 +1,32 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+
+/**
+ * MiniCartService - open / closed state of the slide-out mini cart
+ * Shared so the navbar cart button and product cards can both open it.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class MiniCartService {
+  private isOpen = new BehaviorSubject<boolean>(false);
+
+  /**
+   * Observable for whether the drawer is open
+   */
+  isOpen$(): Observable<boolean> {
+    return this.isOpen.asObservable();
+  }
+
+  open(): void {
+    if (!this.isOpen.value) this.isOpen.next(true);
+  }
+
+  close(): void {
+    if (this.isOpen.value) this.isOpen.next(false);
+  }
+
+  toggle(): void {
+    this.isOpen.next(!this.isOpen.value);
+  }
+}
@@ -20,4 +20,8 @@ export class PaymentService {
 
     return of(result).pipe(delay(ms));
   }
+
+  refundCardPayment(transactionId: string): Observable<PaymentResult> {
+    return of({ success: true, transactionId }).pipe(delay(500));
+  }
 }
@@ -1,36 +1,46 @@
 import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
-import { BehaviorSubject, Observable } from 'rxjs';
+import { BehaviorSubject, Observable, map } from 'rxjs';
 import { isPlatformBrowser } from '@angular/common';
 import { Product } from '../model/product';
+import { StorageSyncService } from './storage-sync.service';
+import { createEnvelope, readEnvelope } from '../../utils/storage-envelope';
+import { FAVORITES_SCHEMA } from '../../utils/storage-schemas';
+import { CatalogService } from './catalog.service';
+import { SearchService } from './search.service';
+import { isBundle } from '../../utils/bundles';
 
 /**
- * ProductService - API-Ready Service for Product Operations
- * Manages all product-related data and operations
+ * ProductService - favourites and product queries
+ * Product data itself comes from CatalogService; this service adds
+ * the shopper's favourites on top of it.
  *
  * Features:
- * - Mock data for development/testing
+ * - Catalog-backed product queries (ranked search, category, bundles)
  * - Reactive state management with BehaviorSubjects
- * - Easy API integration points marked with TODO
- * -SSR-safe localStorage for favorites/wishlist
+ * - SSR-safe localStorage for favorites/wishlist
  */
 @Injectable({
   providedIn: 'root'
 })
 export class ProductService {
   private readonly STORAGE_KEY = 'user_favorites';
-  private readonly API_URL = '/api/products'; // Will be replaced with real endpoint
 
   // State management
-  private products = new BehaviorSubject<Product[]>([]);
   private favoriteIds = new BehaviorSubject<number[]>([]);
-  private loading = new BehaviorSubject<boolean>(false);
-  private error = new BehaviorSubject<string | null>(null);
 
   private isBrowser: boolean;
 
-  constructor(@Inject(PLATFORM_ID) platformId: Object) {
+  constructor(
+    @Inject(PLATFORM_ID) platformId: Object,
+    storageSync: StorageSyncService,
+    private catalog: CatalogService,
+    private searchService: SearchService
+  ) {
     this.isBrowser = isPlatformBrowser(platformId);
     this.loadFavorites();
+
+    // Favourites toggled in another tab (last write wins)
+    storageSync.watch([this.STORAGE_KEY]).subscribe(() => this.loadFavorites());
   }
 
   // ============ PUBLIC OBSERVABLES ============
@@ -39,7 +49,7 @@ export class ProductService {
    * Observable for all products
    */
   getProducts$(): Observable<Product[]> {
-    return this.products.asObservable();
+    return this.catalog.getProducts$();
   }
 
   /**
@@ -53,87 +63,60 @@ export class ProductService {
    * Observable for loading state
    */
   getLoading$(): Observable<boolean> {
-    return this.loading.asObservable();
+    return this.catalog.getLoading$();
   }
 
   /**
    * Observable for error messages
    */
   getError$(): Observable<string | null> {
-    return this.error.asObservable();
+    return this.catalog.getError$();
   }
 
   // ============ PRODUCT OPERATIONS ============
 
   /**
-   * Load products from API or mock data
-   * TODO: Replace with real HTTP call:
-   * return this.http.get<Product[]>(`${this.API_URL}`).pipe(...)
+   * Load products from the catalog
    */
   loadProducts(): void {
-    this.loading.next(true);
-    this.error.next(null);
-
-    // Mock delay to simulate network request
-    setTimeout(() => {
-      try {
-        // TODO: Replace with real API call
-        const mockProducts = this.getMockProducts();
-        this.products.next(mockProducts);
-        this.loading.next(false);
-      } catch (err) {
-        this.error.next('Failed to load products');
-        this.loading.next(false);
-      }
-    }, 500);
+    this.catalog.loadProducts().subscribe({
+      error: error => console.error('Error loading products:', error)
+    });
   }
 
   /**
    * Get single product by ID
-   * TODO: Replace with: this.http.get<Product>(`${this.API_URL}/${id}`)
    */
   getProductById(id: number): Observable<Product | undefined> {
-    return new Observable(observer => {
-      setTimeout(() => {
-        const product = this.products.value.find(p => p.id === id);
-        observer.next(product);
-        observer.complete();
-      }, 200);
-    });
+    return this.catalog.getProduct(id);
   }
 
   /**
-   * Search products by query
-   * TODO: Replace with: this.http.get<Product[]>(`${this.API_URL}/search?q=${query}`)
+   * Bundles in the catalog
+   */
+  getBundles(): Observable<Product[]> {
+    return this.catalog.loadProducts().pipe(map(products => products.filter(isBundle)));
+  }
+
+  /**
+   * Search products by query, best matches first
    */
   searchProducts(query: string): Observable<Product[]> {
-    return new Observable(observer => {
-      const filtered = this.products.value.filter(p =>
-        p.title.toLowerCase().includes(query.toLowerCase()) ||
-        p.description.toLowerCase().includes(query.toLowerCase())
-      );
-      observer.next(filtered);
-      observer.complete();
-    });
+    return this.searchService.search(query).pipe(map(results => results.map(result => result.product)));
   }
 
   /**
    * Get products by category
-   * TODO: Replace with: this.http.get<Product[]>(`${this.API_URL}?category=${category}`)
    */
   getProductsByCategory(category: string): Observable<Product[]> {
-    return new Observable(observer => {
-      const filtered = this.products.value.filter(p => p.category === category);
-      observer.next(filtered);
-      observer.complete();
-    });
+    return this.catalog.loadProducts().pipe(map(products => products.filter(p => p.category === category)));
   }
 
   // ============ FAVORITE MANAGEMENT ============
 
   /**
    * Add product to favorites
-   * TODO: API call: this.http.post(`${this.API_URL}/${productId}/favorite`, {})
+   * TODO: API call: this.http.post(`/api/products/${productId}/favorite`, {})
    */
   addToFavorites(productId: number): void {
     const favorites = this.favoriteIds.value;
@@ -146,7 +129,7 @@ export class ProductService {
 
   /**
    * Remove product from favorites
-   * TODO: API call: this.http.delete(`${this.API_URL}/${productId}/favorite`)
+   * TODO: API call: this.http.delete(`/api/products/${productId}/favorite`)
    */
   removeFromFavorites(productId: number): void {
     const filtered = this.favoriteIds.value.filter(id => id !== productId);
@@ -164,59 +147,8 @@ export class ProductService {
   /**
    * Get all favorited products
    */
-  getFavoritedProducts(): Product[] {
-    return this.products.value.filter(p => this.isFavorited(p.id));
-  }
-
-  // ============ MOCK DATA ============
-
-  /**
-   * Mock products for development/testing
-   * Replace this entire function with API call
-   */
-  private getMockProducts(): Product[] {
-    return [
-      {
-        id: 1,
-        title: 'Wireless Headphones',
-        price: 99.99,
-        description: 'High-quality wireless headphones with noise cancellation',
-        category: 'Electronics',
-        image: 'https://via.placeholder.com/300?text=Headphones'
-      },
-      {
-        id: 2,
-        title: 'USB-C Cable',
-        price: 15.99,
-        description: 'Fast charging USB-C cable, 2 meters',
-        category: 'Accessories',
-        image: 'https://via.placeholder.com/300?text=USB+Cable'
-      },
-      {
-        id: 3,
-        title: 'Laptop Stand',
-        price: 49.99,
-        description: 'Ergonomic aluminum laptop stand',
-        category: 'Office',
-        image: 'https://via.placeholder.com/300?text=Laptop+Stand'
-      },
-      {
-        id: 4,
-        title: 'Wireless Mouse',
-        price: 39.99,
-        description: 'Precision wireless mouse with rechargeable battery',
-        category: 'Electronics',
-        image: 'https://via.placeholder.com/300?text=Mouse'
-      },
-      {
-        id: 5,
-        title: 'Mechanical Keyboard',
-        price: 129.99,
-        description: 'RGB mechanical keyboard with custom switches',
-        category: 'Electronics',
-        image: 'https://via.placeholder.com/300?text=Keyboard'
-      }
-    ];
+  getFavoritedProducts(): Observable<Product[]> {
+    return this.catalog.loadProducts().pipe(map(products => products.filter(p => this.isFavorited(p.id))));
   }
 
   // ============ PERSISTENCE (localStorage) ============
@@ -228,10 +160,11 @@ export class ProductService {
     if (!this.isBrowser) return;
 
     try {
-      const saved = localStorage.getItem(this.STORAGE_KEY);
-      if (saved) {
-        this.favoriteIds.next(JSON.parse(saved));
+      const result = readEnvelope(localStorage.getItem(this.STORAGE_KEY), FAVORITES_SCHEMA);
+      if (result.status === 'invalid') {
+        console.warn('Discarding unreadable favorites');
       }
+      this.favoriteIds.next(result.data ?? []);
     } catch (error) {
       console.error('Error loading favorites:', error);
     }
@@ -244,43 +177,9 @@ export class ProductService {
     if (!this.isBrowser) return;
 
     try {
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.favoriteIds.value));
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(createEnvelope(this.favoriteIds.value, FAVORITES_SCHEMA)));
     } catch (error) {
       console.error('Error saving favorites:', error);
     }
   }
-
-  // ============ API INTEGRATION TEMPLATE ============
-
-  /**
-   * Template for real API integration:
-   *
-   * constructor(
-   *   private http: HttpClient,
-   *   @Inject(PLATFORM_ID) platformId: Object
-   * ) { ... }
-   *
-   * loadProducts(): void {
-   *   this.loading.next(true);
-   *   this.http.get<Product[]>(`${this.API_URL}`)
-   *     .pipe(
-   *       finalize(() => this.loading.next(false)),
-   *       catchError(err => {
-   *         this.error.next('Failed to load products');
-   *         return of([]);
-   *       })
-   *     )
-   *     .subscribe(products => this.products.next(products));
-   * }
-   *
-   * getProductById(id: number): Observable<Product> {
-   *   return this.http.get<Product>(`${this.API_URL}/${id}`)
-   *     .pipe(
-   *       catchError(err => {
-   *         this.error.next('Product not found');
-   *         throw err;
-   *       })
-   *     );
-   * }
-   */
 }
@@ -0,0 +1,108 @@
+import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { CookieService } from 'ngx-cookie-service';
+import { Promotion, PromotionRejection } from '../model/promotion';
+import { PROMOTIONS } from '../data/promotions';
+import { PromotionLine, rejection, validatePromotion } from '../../utils/promotion-engine';
+import { isValidDiscountCode } from '../../utils/cart-helpers';
+import { getUserIdFromToken } from '../../utils/jwt';
+import { CurrencyService } from './currency.service';
+
+/**
+ * PromotionService - looks up discount codes and tracks how often
+ * each user has redeemed them. The rules themselves live in the
+ * pure promotion engine (`src/utils/promotion-engine.ts`).
+ * The usage kept here only spares the shopper a code the server
+ * would refuse; the orders API keeps the count that is enforced.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PromotionService {
+  private readonly USAGE_KEY = 'promotion_usage';
+
+  private isBrowser: boolean;
+
+  constructor(
+    @Inject(PLATFORM_ID) platformId: Object,
+    private cookieService: CookieService,
+    private currencyService: CurrencyService
+  ) {
+    this.isBrowser = isPlatformBrowser(platformId);
+  }
+
+  /**
+   * Find a promotion by code (case-insensitive)
+   */
+  findByCode(code: string): Promotion | undefined {
+    return PROMOTIONS.find(p => p.code === code.trim().toUpperCase());
+  }
+
+  /**
+   * Look up a code and check it can be added to the cart
+   * @returns The promotion, or the reason it was rejected
+   */
+  resolve(code: string, lines: PromotionLine[], applied: Promotion[]): Promotion | PromotionRejection {
+    if (!isValidDiscountCode(code)) {
+      return rejection('invalid_format');
+    }
+
+    const promotion = this.findByCode(code);
+    if (!promotion) {
+      return rejection('not_found');
+    }
+
+    const currency = this.currencyService.getCurrency().code;
+    return validatePromotion(promotion, lines, applied, this.getUsageCount(promotion.code), new Date(), currency) ?? promotion;
+  }
+
+  // ============ USAGE TRACKING ============
+
+  /**
+   * Number of orders the current user placed with a code
+   * @returns The count, or null for guests (usage is only counted per account)
+   */
+  getUsageCount(code: string): number | null {
+    const userId = this.getUserId();
+    return userId === null ? null : this.loadUsage()[userId]?.[code] ?? 0;
+  }
+
+  /**
+   * Record that an order was placed with these codes
+   */
+  recordUsage(codes: string[]): void {
+    const userId = this.getUserId();
+    if (!this.isBrowser || userId === null || codes.length === 0) return;
+
+    const usage = this.loadUsage();
+    const userUsage = usage[userId] ?? {};
+    codes.forEach(code => userUsage[code] = (userUsage[code] ?? 0) + 1);
+    usage[userId] = userUsage;
+
+    try {
+      localStorage.setItem(this.USAGE_KEY, JSON.stringify(usage));
+    } catch (error) {
+      console.error('Error saving promotion usage:', error);
+    }
+  }
+
+  /**
+   * Usage is tracked per account
+   */
+  private getUserId(): string | null {
+    return this.cookieService.check('token')
+      ? getUserIdFromToken(this.cookieService.get('token'))
+      : null;
+  }
+
+  private loadUsage(): Record<string, Record<string, number>> {
+    if (!this.isBrowser) return {};
+
+    try {
+      return JSON.parse(localStorage.getItem(this.USAGE_KEY) || '{}');
+    } catch (error) {
+      console.error('Error loading promotion usage:', error);
+      return {};
+    }
+  }
+}
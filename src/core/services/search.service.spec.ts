@@ -0,0 +1,35 @@
+import { TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+import { Product } from '../model/product';
+import { CatalogService } from './catalog.service';
+import { SearchService } from './search.service';
+
+describe('SearchService', () => {
+  const product = (id: number, title: string): Product => ({ id, title, price: 10, description: '', category: 'electronics', image: '' });
+  const catalog = [product(1, 'Portable Hard Drive'), product(2, 'Gaming Monitor')];
+
+  let service: SearchService;
+
+  beforeEach(() => {
+    const catalogService = jasmine.createSpyObj<CatalogService>('CatalogService', ['loadProducts']);
+    catalogService.loadProducts.and.returnValue(of(catalog));
+    TestBed.configureTestingModule({
+      providers: [{ provide: CatalogService, useValue: catalogService }]
+    });
+    service = TestBed.inject(SearchService);
+  });
+
+  it('finds products by the start of a word', () => {
+    let titles: string[] = [];
+    service.search('mon').subscribe(results => titles = results.map(result => result.product.title));
+
+    expect(titles).toEqual(['Gaming Monitor']);
+  });
+
+  it('limits the number of results', () => {
+    let count = 0;
+    service.search('electronics', 1).subscribe(results => count = results.length);
+
+    expect(count).toBe(1);
+  });
+});
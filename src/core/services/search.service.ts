@@ -0,0 +1,39 @@
+import { Injectable } from '@angular/core';
+import { Observable, map } from 'rxjs';
+import { Product } from '../model/product';
+import { CatalogService } from './catalog.service';
+import { SearchIndex, SearchResult, createSearchIndex, searchProducts } from '../../utils/search-index';
+
+/**
+ * SearchService - ranked product search for the navbar and /search
+ * The catalog is indexed once and the index is reused for every
+ * keystroke, until the catalog itself is reloaded.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SearchService {
+  private index: SearchIndex | null = null;
+  private indexed: Product[] | null = null; // Catalog the index was built from
+
+  constructor(private catalog: CatalogService) {}
+
+  /**
+   * Products matching a query, best first
+   * @param query - Text as typed
+   * @param limit - Most results to return (e.g. for autocomplete)
+   */
+  search(query: string, limit?: number): Observable<SearchResult[]> {
+    return this.catalog.loadProducts(true).pipe(
+      map(products => searchProducts(this.getIndex(products), query, limit))
+    );
+  }
+
+  private getIndex(products: Product[]): SearchIndex {
+    if (!this.index || this.indexed !== products) {
+      this.index = createSearchIndex(products);
+      this.indexed = products;
+    }
+    return this.index;
+  }
+}
@@ -0,0 +1,39 @@
+import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { EMPTY, Observable, filter, fromEvent, map, share } from 'rxjs';
+
+/**
+ * StorageSyncService - tells services when another tab changed
+ * localStorage, so open tabs stay on the same cart and favourites.
+ *
+ * Conflict rule: last write wins per storage key. Every change is
+ * persisted as soon as it is made, so a tab never holds unsaved state;
+ * when another tab writes a key, its value replaces ours wholesale.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class StorageSyncService {
+  private changes$: Observable<StorageEvent>;
+
+  constructor(@Inject(PLATFORM_ID) platformId: Object) {
+    // The storage event only fires in the *other* tabs of the origin
+    this.changes$ = isPlatformBrowser(platformId)
+      ? fromEvent<StorageEvent>(window, 'storage').pipe(
+          filter(event => event.storageArea === localStorage),
+          share()
+        )
+      : EMPTY;
+  }
+
+  /**
+   * Changes made by other tabs to any of these keys
+   * @returns The key that changed, or null when storage was cleared
+   */
+  watch(keys: string[]): Observable<string | null> {
+    return this.changes$.pipe(
+      filter(event => event.key === null || keys.includes(event.key)),
+      map(event => event.key)
+    );
+  }
+}
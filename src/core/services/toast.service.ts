@@ -14,6 +14,16 @@ export interface Toast {
   message: string;
   type: ToastType;
   duration?: number; // milliseconds (default: 3000)
+  action?: ToastAction;
+}
+
+/**
+ * Button shown in a toast, e.g. "Undo"
+ */
+export interface ToastAction {
+  label: string;
+  handler: () => void;
+  isDisabled?: () => boolean; // e.g. Undo once a later change is on top
 }
 
 @Injectable({
@@ -30,8 +40,9 @@ export class ToastService {
    * @param message - The message to display
    * @param type - Type of notification (success, error, info, warning)
    * @param duration - How long to display in milliseconds (default: 3000ms)
+   * @param action - Optional button (the toast closes when it is clicked)
    */
-  show(message: string, type: ToastType = 'info', duration: number = 3000): string {
+  show(message: string, type: ToastType = 'info', duration: number = 3000, action?: ToastAction): string {
     // Generate unique ID for the toast
     const id = `toast-${++this.toastCounter}`;
 
@@ -40,7 +51,8 @@ export class ToastService {
       id,
       message,
       type,
-      duration
+      duration,
+      action
     };
 
     // Add to toasts array
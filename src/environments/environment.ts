@@ -1 +1,15 @@
-export const environment = {};
+import type { CatalogSource } from '../core/model/catalog';
+
+export const environment = {
+    cartMaxAgeDays: 30, // Abandoned carts are discarded after this many days
+    catalog: {
+        source: 'local' as CatalogSource, // Our Express API; 'remote' reads fakestoreapi.com directly, 'fixtures' works offline
+        cacheTtlMs: 300000                 // How long a loaded catalog is reused
+    },
+    analytics: {
+        endpoint: '/api/events',
+        batchSize: 20,          // Events per POST
+        flushIntervalMs: 10000, // Longest an event waits in the buffer
+        console: false          // Also log events to the browser console
+    }
+};
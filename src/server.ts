@@ -6,6 +6,12 @@ import {
 } from '@angular/ssr/node';
 import express from 'express';
 import { join } from 'node:path';
+import { cartRouter } from './api/cart.routes';
+import { giftCardRouter } from './api/gift-card.routes';
+import { eventsRouter } from './api/events.routes';
+import { ordersRouter } from './api/orders.routes';
+import { productsRouter } from './api/products.routes';
+import { categoriesRouter } from './api/categories.routes';
 
 const browserDistFolder = join(import.meta.dirname, '../browser');
 
@@ -13,16 +19,15 @@ const app = express();
 const angularApp = new AngularNodeAppEngine();
 
 /**
- * Example Express Rest API endpoints can be defined here.
- * Uncomment and define endpoints as necessary.
- *
- * Example:
- * ```ts
- * app.get('/api/{*splat}', (req, res) => {
- *   // Handle API request
- * });
- * ```
+ * REST API endpoints
  */
+app.use('/api', express.json());
+app.use('/api/cart', cartRouter);
+app.use('/api/gift-cards', giftCardRouter);
+app.use('/api/events', eventsRouter);
+app.use('/api/orders', ordersRouter);
+app.use('/api/products', productsRouter);
+app.use('/api/categories', categoriesRouter);
 
 /**
  * Serve static files from /browser
@@ -0,0 +1,24 @@
+import { Component, Input } from '@angular/core';
+import { RouterLink } from '@angular/router';
+
+/**
+ * One step of a breadcrumb trail; the last one is the current page
+ */
+export interface Breadcrumb {
+  label: string;
+  link?: string | unknown[];
+}
+
+/**
+ * BreadcrumbsComponent - "Home / Categories / Jewellery" trail above a page
+ */
+@Component({
+  selector: 'app-breadcrumbs',
+  standalone: true,
+  imports: [RouterLink],
+  templateUrl: './breadcrumbs.component.html',
+  styleUrls: ['./breadcrumbs.component.css']
+})
+export class BreadcrumbsComponent {
+  @Input({ required: true }) items: Breadcrumb[] = [];
+}
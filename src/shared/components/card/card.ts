@@ -1,45 +1,85 @@
-import { Component, Input } from '@angular/core';
-import { Product } from '../../../core/model/product';
+import { Component, Input, OnChanges } from '@angular/core';
+import { Product, ProductOption, SelectedOptions } from '../../../core/model/product';
 import { RouterLink } from "@angular/router";
 import { LowerCasePipe } from '@angular/common';
+import { FormsModule } from '@angular/forms';
 import { ShortTextPipe } from '../../pipes/short-text-pipe';
+import { PricePipe } from '../../pipes/price-pipe';
 import { CartService } from '../../../core/services/cart.service';
 import { ToastService } from '../../../core/services/toast.service';
+import { getDefaultSelection, getProductOptions } from '../../../utils/product-options';
+import { createCartItem, formatSelectedOptions } from '../../../utils/cart-helpers';
+import { formatBundleContents } from '../../../utils/bundles';
+import { AnalyticsService } from '../../../core/services/analytics.service';
+import { MiniCartService } from '../../../core/services/mini-cart.service';
 
 @Component({
   selector: 'app-card',
   standalone: true,
-  imports: [RouterLink, LowerCasePipe, ShortTextPipe],
+  imports: [RouterLink, LowerCasePipe, ShortTextPipe, PricePipe, FormsModule],
   templateUrl: './card.html',
   styleUrl: './card.css'
 })
-export class Card {
+export class Card implements OnChanges {
 
    @Input({ required: true }) product: Product = {} as Product;
 
+  // Variant choice (size, colour...) for products that have options
+  options: ProductOption[] = [];
+  selectedOptions: SelectedOptions = {};
+
+  /**
+   * Contents of a bundle as display text (empty for regular products)
+   */
+  get bundleContents(): string {
+    return formatBundleContents(this.product.bundle);
+  }
+
   constructor(
     private cartService: CartService,
-    private toastService: ToastService
+    private toastService: ToastService,
+    private analytics: AnalyticsService,
+    private miniCartService: MiniCartService
   ) { }
 
+  ngOnChanges(): void {
+    this.options = getProductOptions(this.product);
+    this.selectedOptions = getDefaultSelection(this.options);
+  }
+
   /**
-   * Add product to cart with animation feedback
+   * Report that the shopper opened the product from this card
    */
-  addToCart(): void {
-    const cartItem = {
-      id: this.product.id,
+  trackView(): void {
+    this.analytics.track({
+      type: 'product_viewed',
+      productId: this.product.id,
       title: this.product.title,
       price: this.product.price,
-      image: this.product.image
-    };
+      category: this.product.category,
+      list: 'product_card'
+    });
+  }
+
+  /**
+   * Add product to cart with animation feedback
+   */
+  addToCart(): void {
+    const options = this.options.length ? { ...this.selectedOptions } : undefined;
+    const { key, quantity, ...line } = createCartItem(this.product, 1, options);
 
-    this.cartService.addToCart(cartItem);
+    if (this.cartService.addToCart(line) === 0) {
+      this.toastService.show(`You can't add more of ${this.product.title}`, 'warning', 3000);
+      return;
+    }
 
+    const variant = formatSelectedOptions(options);
     this.toastService.show(
-      `${this.product.title} added to cart!`,
+      `${this.product.title}${variant ? ` (${variant})` : ''} added to cart!`,
       'success',
       3000
     );
+    this.miniCartService.open();
   }
 
 }
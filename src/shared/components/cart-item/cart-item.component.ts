@@ -1,6 +1,10 @@
 import { Component, Input, Output, EventEmitter, ChangeDetectionStrategy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { CartItem } from '../../../core/services/cart.service';
+import { calculateLineTotal, formatSelectedOptions } from '../../../utils/cart-helpers';
+import { QuantityRules, canDecreaseQuantity, canIncreaseQuantity, getQuantityRules, isLowStock } from '../../../utils/quantity-rules';
+import { PricePipe } from '../../pipes/price-pipe';
+import { getBundleSavings, isBundle } from '../../../utils/bundles';
 
 /**
  * CartItemComponent - Reusable standalone component
@@ -11,13 +15,14 @@ import { CartItem } from '../../../core/services/cart.service';
  *   [item]="cartItem"
  *   (onIncrease)="handleIncrease($event)"
  *   (onDecrease)="handleDecrease($event)"
- *   (onRemove)="handleRemove($event)">
+ *   (onRemove)="handleRemove($event)"
+ *   (onSaveForLater)="handleSaveForLater($event)">
  * </app-cart-item>
  */
 @Component({
   selector: 'app-cart-item',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, PricePipe],
   templateUrl: './cart-item.component.html',
   styleUrls: ['./cart-item.component.css'],
   changeDetection: ChangeDetectionStrategy.OnPush
@@ -31,53 +36,114 @@ export class CartItemComponent {
   /**
    * Event emitted when quantity is increased
    */
-  @Output() onIncrease = new EventEmitter<number>();
+  @Output() onIncrease = new EventEmitter<string>();
 
   /**
    * Event emitted when quantity is decreased
    */
-  @Output() onDecrease = new EventEmitter<number>();
+  @Output() onDecrease = new EventEmitter<string>();
 
   /**
    * Event emitted when item is removed
    */
-  @Output() onRemove = new EventEmitter<number>();
+  @Output() onRemove = new EventEmitter<string>();
+
+  /**
+   * Event emitted when item is moved to the saved-for-later list
+   */
+  @Output() onSaveForLater = new EventEmitter<string>();
+
+  /**
+   * Whether the bundle contents are shown
+   */
+  showContents = false;
+
+  /**
+   * Whether the line is a bundle of several products
+   */
+  isBundle(): boolean {
+    return isBundle(this.item);
+  }
+
+  /**
+   * Saving per bundle over buying the components separately
+   */
+  getBundleSavings(): number {
+    return getBundleSavings(this.item);
+  }
+
+  toggleContents(): void {
+    this.showContents = !this.showContents;
+  }
 
   /**
    * Calculate subtotal for this item
    */
   getSubtotal(): number {
-    return this.item.price * this.item.quantity;
+    return calculateLineTotal(this.item.price, this.item.quantity);
+  }
+
+  /**
+   * Selected options as display text (empty for products without variants)
+   */
+  getOptionsText(): string {
+    return formatSelectedOptions(this.item.options);
+  }
+
+  /**
+   * Stock, limit, minimum and step for this line
+   * Cart lines carry what is left once the rest of the cart takes its share
+   */
+  get rules(): QuantityRules {
+    return this.item.rules ?? getQuantityRules(this.item);
+  }
+
+  /**
+   * Whether the plus button can add another step
+   */
+  canIncrease(): boolean {
+    return canIncreaseQuantity(this.item.quantity, this.rules);
+  }
+
+  /**
+   * Whether the minus button can take a step off (else use remove)
+   */
+  canDecrease(): boolean {
+    return canDecreaseQuantity(this.item.quantity, this.rules);
+  }
+
+  /**
+   * Whether to show the "only N left" hint
+   */
+  isLowStock(): boolean {
+    return isLowStock(this.rules);
   }
 
   /**
    * Handle quantity increase
    */
   increaseQuantity(): void {
-    this.onIncrease.emit(this.item.id);
+    this.onIncrease.emit(this.item.key);
   }
 
   /**
    * Handle quantity decrease
    */
   decreaseQuantity(): void {
-    this.onDecrease.emit(this.item.id);
+    this.onDecrease.emit(this.item.key);
   }
 
   /**
    * Handle item removal
    */
   removeItem(): void {
-    this.onRemove.emit(this.item.id);
+    this.onRemove.emit(this.item.key);
   }
 
   /**
-   * Get formatted price string
+   * Handle save for later
    */
-  formatPrice(price: number): string {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(price);
+  saveForLater(): void {
+    this.onSaveForLater.emit(this.item.key);
   }
 }
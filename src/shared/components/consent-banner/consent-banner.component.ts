@@ -0,0 +1,30 @@
+import { Component, PLATFORM_ID, inject } from '@angular/core';
+import { AsyncPipe, isPlatformBrowser } from '@angular/common';
+import { ConsentService } from '../../../core/services/consent.service';
+
+/**
+ * ConsentBannerComponent - asks the shopper to opt in to analytics
+ * Shown until they answer; the footer's "Privacy preferences" asks again.
+ */
+@Component({
+  selector: 'app-consent-banner',
+  standalone: true,
+  imports: [AsyncPipe],
+  templateUrl: './consent-banner.component.html',
+  styleUrls: ['./consent-banner.component.css']
+})
+export class ConsentBannerComponent {
+  private readonly consentService = inject(ConsentService);
+
+  // The answer lives in localStorage, so the banner is only decided in the browser
+  readonly isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+  readonly consent$ = this.consentService.getConsent$();
+
+  accept(): void {
+    this.consentService.grant();
+  }
+
+  decline(): void {
+    this.consentService.deny();
+  }
+}
@@ -1,4 +1,5 @@
-import { Component } from '@angular/core';
+import { Component, inject } from '@angular/core';
+import { ConsentService } from '../../../core/services/consent.service';
 
 @Component({
   selector: 'app-footer',
@@ -7,5 +8,12 @@ import { Component } from '@angular/core';
   styleUrls: ['./footer.component.css']
 })
 export class FooterComponent {
+  private readonly consentService = inject(ConsentService);
+
   currentYear = new Date().getFullYear();
+
+  /** Ask about analytics again */
+  openPrivacyPreferences(): void {
+    this.consentService.reset();
+  }
 }
@@ -0,0 +1,145 @@
+import { ComponentFixture, TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideNoopAnimations } from '@angular/platform-browser/animations';
+import { provideRouter } from '@angular/router';
+import { Subject, of } from 'rxjs';
+import { CartService } from '../../../core/services/cart.service';
+import { CATALOG_BACKEND } from '../../../core/services/catalog.service';
+import { StorageSyncService } from '../../../core/services/storage-sync.service';
+import { AnalyticsService } from '../../../core/services/analytics.service';
+import { ToastService } from '../../../core/services/toast.service';
+import { Product } from '../../../core/model/product';
+import { createCartItem } from '../../../utils/cart-helpers';
+import { NavbarComponent } from '../navbar/navbar.component';
+import { Card } from '../card/card';
+
+describe('MiniCartComponent', () => {
+  const jacket: Product = { id: 3, title: 'Cotton Jacket', price: 55.99, description: '', category: "men's clothing", image: '' };
+
+  let fixture: ComponentFixture<NavbarComponent>;
+  let cartService: CartService;
+  let toastShow: jasmine.Spy<ToastService['show']>;
+
+  const query = <T extends HTMLElement = HTMLElement>(selector: string): T => fixture.nativeElement.querySelector(selector);
+  const panel = () => query('.mini-cart-panel');
+  const isOpen = () => panel().classList.contains('is-open');
+  const cartButton = () => query<HTMLButtonElement>('button[aria-label="Open cart"]');
+  const closeButton = () => query<HTMLButtonElement>('.mini-cart-close');
+  const quantities = () => cartService.getCartItems().map(item => item.quantity);
+
+  const addJacket = () => {
+    const { key, quantity, ...line } = createCartItem(jacket);
+    cartService.addToCart(line);
+  };
+
+  // The drawer moves focus in once it is visible
+  const openFromNavbar = () => {
+    cartButton().focus();
+    cartButton().click();
+    fixture.detectChanges();
+    tick();
+  };
+
+  const click = (selector: string) => {
+    query(selector).click();
+    fixture.detectChanges();
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({
+      imports: [NavbarComponent],
+      providers: [
+        provideRouter([]),
+        provideNoopAnimations(),
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: CATALOG_BACKEND, useValue: { source: 'fixtures', getProducts: () => of([jacket]), getProduct: () => of(undefined) } },
+        { provide: StorageSyncService, useValue: { watch: () => new Subject<string | null>() } },
+        { provide: AnalyticsService, useValue: jasmine.createSpyObj<AnalyticsService>('AnalyticsService', ['track']) }
+      ]
+    });
+
+    cartService = TestBed.inject(CartService);
+    toastShow = spyOn(TestBed.inject(ToastService), 'show');
+
+    // The navbar hosts the drawer and its cart button
+    fixture = TestBed.createComponent(NavbarComponent);
+    fixture.componentRef.setInput('isLogined', true);
+    fixture.detectChanges();
+  });
+
+  afterEach(() => localStorage.clear());
+
+  it('opens from the navbar cart button and moves focus into the drawer', fakeAsync(() => {
+    expect(isOpen()).toBeFalse();
+
+    openFromNavbar();
+
+    expect(isOpen()).toBeTrue();
+    expect(cartButton().getAttribute('aria-expanded')).toBe('true');
+    expect(document.activeElement).toBe(closeButton());
+  }));
+
+  it('opens with the new line when a product card adds to the cart', fakeAsync(() => {
+    const card = TestBed.createComponent(Card);
+    card.componentRef.setInput('product', jacket);
+    card.detectChanges();
+
+    card.nativeElement.querySelector('.add-to-cart-btn').click();
+    fixture.detectChanges();
+    tick();
+
+    expect(isOpen()).toBeTrue();
+    expect(query('.mini-cart-lines').textContent).toContain('Cotton Jacket');
+  }));
+
+  it('closes on Escape and gives focus back to the cart button', fakeAsync(() => {
+    openFromNavbar();
+
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+    fixture.detectChanges();
+
+    expect(isOpen()).toBeFalse();
+    expect(document.activeElement).toBe(cartButton());
+  }));
+
+  it('keeps Tab and Shift+Tab inside the open drawer', fakeAsync(() => {
+    addJacket();
+    openFromNavbar();
+
+    const focusable = Array.from(panel().querySelectorAll<HTMLElement>('a[href], button:not([disabled])'));
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    expect(first).toBe(closeButton());
+
+    last.focus();
+    const tab = new KeyboardEvent('keydown', { key: 'Tab', bubbles: true, cancelable: true });
+    last.dispatchEvent(tab);
+    expect(tab.defaultPrevented).toBeTrue();
+    expect(document.activeElement).toBe(first);
+
+    first.dispatchEvent(new KeyboardEvent('keydown', { key: 'Tab', shiftKey: true, bubbles: true, cancelable: true }));
+    expect(document.activeElement).toBe(last);
+  }));
+
+  it('changes quantities and removes lines with an undo toast', fakeAsync(() => {
+    addJacket();
+    openFromNavbar();
+
+    click('[aria-label="Increase quantity"]');
+    expect(quantities()).toEqual([2]);
+    click('[aria-label="Decrease quantity"]');
+    expect(quantities()).toEqual([1]);
+
+    click('[aria-label="Remove item"]');
+    expect(quantities()).toEqual([]);
+    expect(query('.mini-cart-empty')).not.toBeNull();
+
+    const [message, , , action] = toastShow.calls.mostRecent().args;
+    expect(message).toBe('Cotton Jacket removed from cart');
+    action!.handler();
+    expect(quantities()).toEqual([1]);
+  }));
+});
@@ -0,0 +1,143 @@
+import { Component, DestroyRef, ElementRef, HostListener, PLATFORM_ID, ViewChild, inject } from '@angular/core';
+import { AsyncPipe, isPlatformBrowser } from '@angular/common';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { NavigationStart, Router, RouterLink } from '@angular/router';
+import { filter } from 'rxjs';
+import { CartService, CartState } from '../../../core/services/cart.service';
+import { MiniCartService } from '../../../core/services/mini-cart.service';
+import { ToastService } from '../../../core/services/toast.service';
+import { CartItemComponent } from '../cart-item/cart-item.component';
+import { PricePipe } from '../../pipes/price-pipe';
+import { cartItemAddAnimation, fadeAnimation } from '../../animations/cart-animations';
+import { getAmountUntilFreeShipping, getFreeShippingProgress } from '../../../utils/cart-helpers';
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+/**
+ * MiniCartComponent - slide-out cart opened from the navbar
+ * Lists the cart lines with quantity controls, the subtotal and the
+ * progress towards free shipping. Escape closes it; while open, Tab
+ * stays inside the drawer and focus returns to the opener on close.
+ */
+@Component({
+  selector: 'app-mini-cart',
+  standalone: true,
+  imports: [AsyncPipe, RouterLink, CartItemComponent, PricePipe],
+  templateUrl: './mini-cart.component.html',
+  styleUrls: ['./mini-cart.component.css'],
+  animations: [cartItemAddAnimation, fadeAnimation]
+})
+export class MiniCartComponent {
+  private readonly cartService = inject(CartService);
+  private readonly miniCartService = inject(MiniCartService);
+  private readonly toastService = inject(ToastService);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+
+  @ViewChild('panel') panel?: ElementRef<HTMLElement>;
+  @ViewChild('closeButton') closeButton?: ElementRef<HTMLButtonElement>;
+
+  readonly cartState$ = this.cartService.getCartState$();
+  isOpen = false;
+
+  private returnFocusTo: HTMLElement | null = null;
+
+  constructor() {
+    this.miniCartService.isOpen$()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(open => this.onOpenChange(open));
+
+    // Following a link out of the drawer closes it
+    inject(Router).events
+      .pipe(
+        filter(event => event instanceof NavigationStart),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe(() => this.close());
+  }
+
+  @HostListener('document:keydown.escape')
+  onEscape(): void {
+    if (this.isOpen) this.close();
+  }
+
+  close(): void {
+    this.miniCartService.close();
+  }
+
+  /**
+   * Keep Tab and Shift+Tab cycling inside the drawer
+   */
+  trapFocus(event: KeyboardEvent): void {
+    if (event.key !== 'Tab' || !this.panel) return;
+
+    const focusable = Array.from(this.panel.nativeElement.querySelectorAll<HTMLElement>(FOCUSABLE));
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (!first) return;
+
+    if (event.shiftKey && document.activeElement === first) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && document.activeElement === last) {
+      event.preventDefault();
+      first.focus();
+    }
+  }
+
+  // ============ LINE ACTIONS ============
+
+  onIncrease(lineKey: string): void {
+    this.cartService.increaseQuantity(lineKey);
+  }
+
+  onDecrease(lineKey: string): void {
+    this.cartService.decreaseQuantity(lineKey);
+  }
+
+  onRemove(lineKey: string): void {
+    const item = this.cartService.getCartState().items.find(i => i.key === lineKey);
+    if (!item) return;
+
+    const commandId = this.cartService.removeFromCart(lineKey);
+    this.toastService.show(`${item.title} removed from cart`, 'info', 5000, commandId === null ? undefined : {
+      label: 'Undo',
+      handler: () => this.cartService.undoCommand(commandId),
+      isDisabled: () => !this.cartService.canUndoCommand(commandId)
+    });
+  }
+
+  onSaveForLater(lineKey: string): void {
+    const item = this.cartService.getCartState().items.find(i => i.key === lineKey);
+    if (!item) return;
+
+    this.cartService.moveToSaved(lineKey);
+    this.toastService.show(`${item.title} saved for later`, 'info', 2000);
+  }
+
+  // ============ FREE SHIPPING ============
+
+  getAmountForFreeShipping(state: CartState): number {
+    const threshold = state.shippingMethod?.freeThreshold;
+    return threshold === undefined ? 0 : getAmountUntilFreeShipping(state.subtotal, threshold);
+  }
+
+  getFreeShippingProgress(state: CartState): number {
+    const threshold = state.shippingMethod?.freeThreshold;
+    return threshold === undefined ? 0 : getFreeShippingProgress(state.subtotal, threshold);
+  }
+
+  private onOpenChange(open: boolean): void {
+    this.isOpen = open;
+    if (!this.isBrowser) return;
+
+    if (open) {
+      this.returnFocusTo = document.activeElement as HTMLElement | null;
+      // Wait for the drawer to become visible before moving focus into it
+      setTimeout(() => this.closeButton?.nativeElement.focus());
+    } else {
+      this.returnFocusTo?.focus();
+      this.returnFocusTo = null;
+    }
+  }
+}
@@ -4,6 +4,11 @@ import { CommonModule } from '@angular/common';
 import { Subject, Observable } from 'rxjs';
 import { takeUntil } from 'rxjs/operators';
 import { CartService } from '../../../core/services/cart.service';
+import { CurrencyService } from '../../../core/services/currency.service';
+import { Currency, CurrencyCode } from '../../../core/model/currency';
+import { MiniCartService } from '../../../core/services/mini-cart.service';
+import { MiniCartComponent } from '../mini-cart/mini-cart.component';
+import { SearchBoxComponent } from '../search-box/search-box.component';
 
 interface NavLink {
   label: string;
@@ -15,7 +20,7 @@ interface NavLink {
   standalone: true,
   templateUrl: './navbar.component.html',
   styleUrls: ['./navbar.component.css'],
-  imports: [RouterLink, RouterLinkActive, RouterModule, CommonModule]
+  imports: [RouterLink, RouterLinkActive, RouterModule, CommonModule, MiniCartComponent, SearchBoxComponent]
 })
 export class NavbarComponent implements OnInit, OnDestroy {
   @Input({ required: true }) isLogined: boolean = false;
@@ -23,6 +28,9 @@ export class NavbarComponent implements OnInit, OnDestroy {
   cartItemCount$: Observable<number>;
   cartItemCount: number = 0;
   mobileOpen: boolean = false;
+  currencies: Currency[];
+  currency$: Observable<Currency>;
+  miniCartOpen$: Observable<boolean>;
 
   navLinks: NavLink[] = [
     { label: 'Home',       path: '/home' },
@@ -34,8 +42,15 @@ export class NavbarComponent implements OnInit, OnDestroy {
 
   private destroy$ = new Subject<void>();
 
-  constructor(private cartService: CartService) {
+  constructor(
+    private cartService: CartService,
+    private currencyService: CurrencyService,
+    private miniCartService: MiniCartService
+  ) {
     this.cartItemCount$ = this.cartService.getItemCount$();
+    this.miniCartOpen$ = this.miniCartService.isOpen$();
+    this.currencies = this.currencyService.currencies;
+    this.currency$ = this.currencyService.getCurrency$();
   }
 
   ngOnInit(): void {
@@ -44,6 +59,14 @@ export class NavbarComponent implements OnInit, OnDestroy {
       .subscribe(count => this.cartItemCount = count);
   }
 
+  onCurrencyChange(code: string): void {
+    this.currencyService.setCurrency(code as CurrencyCode);
+  }
+
+  toggleMiniCart(): void {
+    this.miniCartService.toggle();
+  }
+
   toggleMobileMenu(): void {
     this.mobileOpen = !this.mobileOpen;
   }
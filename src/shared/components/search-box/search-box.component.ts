@@ -0,0 +1,107 @@
+import { Component, DestroyRef, ElementRef, HostListener, inject } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { FormsModule } from '@angular/forms';
+import { Router } from '@angular/router';
+import { Subject, catchError, debounceTime, distinctUntilChanged, of, switchMap } from 'rxjs';
+import { SearchService } from '../../../core/services/search.service';
+import { SearchResult } from '../../../utils/search-index';
+import { HighlightPipe } from '../../pipes/highlight-pipe';
+import { PricePipe } from '../../pipes/price-pipe';
+
+// Shortest query worth suggesting for, and how many suggestions to show
+const MIN_QUERY_LENGTH = 2;
+const MAX_SUGGESTIONS = 6;
+
+/**
+ * SearchBoxComponent - navbar search with autocomplete
+ * Suggests products as the shopper types; Enter opens the highlighted
+ * suggestion, or the full results at /search when none is highlighted.
+ */
+@Component({
+  selector: 'app-search-box',
+  standalone: true,
+  imports: [FormsModule, HighlightPipe, PricePipe],
+  templateUrl: './search-box.component.html',
+  styleUrls: ['./search-box.component.css']
+})
+export class SearchBoxComponent {
+  private readonly searchService = inject(SearchService);
+  private readonly router = inject(Router);
+  private readonly elementRef = inject(ElementRef<HTMLElement>);
+  private readonly destroyRef = inject(DestroyRef);
+
+  text = '';
+  suggestions: SearchResult[] = [];
+  isOpen = false;
+  activeIndex = -1; // Suggestion picked with the arrow keys, -1 for none
+
+  private query$ = new Subject<string>();
+
+  constructor() {
+    this.query$
+      .pipe(
+        debounceTime(200),
+        distinctUntilChanged(),
+        switchMap(query => query.length < MIN_QUERY_LENGTH
+          ? of([])
+          : this.searchService.search(query, MAX_SUGGESTIONS).pipe(catchError(() => of([])))),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe(suggestions => {
+        this.suggestions = suggestions;
+        this.activeIndex = -1;
+      });
+  }
+
+  @HostListener('document:click', ['$event'])
+  onDocumentClick(event: MouseEvent): void {
+    if (!this.elementRef.nativeElement.contains(event.target as Node)) this.close();
+  }
+
+  onInput(text: string): void {
+    this.isOpen = true;
+    this.query$.next(text.trim());
+  }
+
+  /**
+   * Arrow keys move through the suggestions, Escape closes them
+   */
+  onKeydown(event: KeyboardEvent): void {
+    if (event.key === 'Escape') {
+      this.close();
+      return;
+    }
+    if (!this.suggestions.length || (event.key !== 'ArrowDown' && event.key !== 'ArrowUp')) return;
+
+    event.preventDefault();
+    this.isOpen = true;
+    const step = event.key === 'ArrowDown' ? 1 : -1;
+    const count = this.suggestions.length;
+    this.activeIndex = ((this.activeIndex + step + count + 1) % (count + 1)) - 1;
+  }
+
+  submit(): void {
+    const active = this.suggestions[this.activeIndex];
+    if (active) {
+      this.open(active);
+      return;
+    }
+
+    const q = this.text.trim();
+    if (!q) return;
+    this.close();
+    this.router.navigate(['/search'], { queryParams: { q } });
+  }
+
+  open(result: SearchResult): void {
+    this.close();
+    this.text = '';
+    this.query$.next('');
+    this.router.navigate(['/details', result.product.id]);
+  }
+
+  close(): void {
+    this.isOpen = false;
+    this.activeIndex = -1;
+  }
+}
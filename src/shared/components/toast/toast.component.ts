@@ -56,6 +56,13 @@ export class ToastComponent implements OnInit {
     return titles[type] ?? 'Notification';
   }
 
+  /** Run the toast's action, then close it */
+  runAction(toast: Toast): void {
+    if (toast.action?.isDisabled?.()) return;
+    toast.action?.handler();
+    this.toastService.remove(toast.id);
+  }
+
   /** Close toast manually */
   closeToast(id: string): void {
     this.toastService.remove(id);
@@ -0,0 +1,16 @@
+import { HighlightPipe } from './highlight-pipe';
+
+describe('HighlightPipe', () => {
+  it('create an instance', () => {
+    const pipe = new HighlightPipe();
+    expect(pipe).toBeTruthy();
+  });
+
+  it('marks the matched words', () => {
+    const pipe = new HighlightPipe();
+    expect(pipe.transform('Rain Jacket', ['jacket'])).toEqual([
+      { text: 'Rain ', match: false },
+      { text: 'Jacket', match: true }
+    ]);
+  });
+});
@@ -0,0 +1,18 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { HighlightSegment, highlightText } from '../../utils/search-index';
+
+/**
+ * Splits text into segments marking the words a search matched:
+ * @for (segment of product.title | highlight:result.terms; track $index) { ... }
+ */
+@Pipe({
+  name: 'highlight'
+})
+export class HighlightPipe implements PipeTransform {
+
+  transform(value: string | null | undefined, terms: string[]): HighlightSegment[] {
+    if (!value) return [];
+    return highlightText(value, terms);
+  }
+
+}
@@ -0,0 +1,13 @@
+import { TestBed } from '@angular/core/testing';
+import { ChangeDetectorRef } from '@angular/core';
+import { PricePipe } from './price-pipe';
+
+describe('PricePipe', () => {
+  it('create an instance', () => {
+    TestBed.configureTestingModule({
+      providers: [PricePipe, { provide: ChangeDetectorRef, useValue: { markForCheck: () => {} } }]
+    });
+    const pipe = TestBed.inject(PricePipe);
+    expect(pipe).toBeTruthy();
+  });
+});
@@ -0,0 +1,32 @@
+import { ChangeDetectorRef, OnDestroy, Pipe, PipeTransform, inject } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { CurrencyService } from '../../core/services/currency.service';
+import { formatPrice } from '../../utils/cart-helpers';
+
+/**
+ * Formats a base-currency amount in the shopper's currency.
+ * Pass a currency and rate to show a stored amount (e.g. an order)
+ * the way it was charged: {{ order.total | price:order.currency:order.exchangeRate }}
+ */
+@Pipe({
+  name: 'price',
+  pure: false
+})
+export class PricePipe implements PipeTransform, OnDestroy {
+  private readonly currencyService = inject(CurrencyService);
+  private readonly cdr = inject(ChangeDetectorRef);
+
+  // Re-render OnPush hosts when the currency is switched
+  private readonly subscription: Subscription = this.currencyService
+    .getCurrency$()
+    .subscribe(() => this.cdr.markForCheck());
+
+  transform(value: number | null | undefined, currency?: string, rate?: number): string {
+    if (value === null || value === undefined) return '';
+    return formatPrice(value, currency ?? this.currencyService.getCurrency().code, currency ? rate : undefined);
+  }
+
+  ngOnDestroy(): void {
+    this.subscription.unsubscribe();
+  }
+}
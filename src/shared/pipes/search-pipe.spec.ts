@@ -1,8 +0,0 @@
-import { SearchPipe } from './search-pipe';
-
-describe('SearchPipe', () => {
-  it('create an instance', () => {
-    const pipe = new SearchPipe();
-    expect(pipe).toBeTruthy();
-  });
-});
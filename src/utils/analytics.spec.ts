@@ -0,0 +1,36 @@
+import { createTrackedEvent, isTrackedEvent, toStoredEvent } from './analytics';
+
+describe('analytics', () => {
+  it('stamps events for delivery', () => {
+    const event = createTrackedEvent({ type: 'discount_applied', code: 'SAVE10', amount: 5 }, 'tab1', new Date('2026-03-01T10:00:00Z'));
+
+    expect(event).toEqual(jasmine.objectContaining({ type: 'discount_applied', sessionId: 'tab1', timestamp: '2026-03-01T10:00:00.000Z' }));
+    expect(event.id).toBeTruthy();
+    expect(isTrackedEvent(event)).toBeTrue();
+  });
+
+  it('rejects unknown types and missing or mistyped fields', () => {
+    const base = { id: 'e1', sessionId: 's1', timestamp: '2026-03-01T10:00:00Z' };
+
+    expect(isTrackedEvent({ ...base, type: 'page_scrolled' })).toBeFalse();
+    expect(isTrackedEvent({ ...base, type: 'constructor' })).toBeFalse();
+    expect(isTrackedEvent({ ...base, type: 'toString' })).toBeFalse();
+    expect(isTrackedEvent({ ...base, type: 'checkout_started', itemCount: 2 })).toBeFalse();
+    expect(isTrackedEvent({ ...base, type: 'checkout_started', itemCount: '2', value: 10 })).toBeFalse();
+    expect(isTrackedEvent({ ...base, timestamp: 'yesterday', type: 'checkout_started', itemCount: 2, value: 10 })).toBeFalse();
+    expect(isTrackedEvent({ ...base, type: 'checkout_started', itemCount: 2, value: 10 })).toBeTrue();
+  });
+
+  it('stores only the fields the event type defines', () => {
+    const event = {
+      id: 'e1', sessionId: 's1', timestamp: '2026-03-01T10:00:00Z',
+      type: 'product_viewed', productId: 1, title: 'Backpack', price: 109.95, list: 'home', email: 'a@b.c'
+    };
+
+    expect(isTrackedEvent(event)).toBeTrue();
+    expect(toStoredEvent(event as never)).toEqual({
+      id: 'e1', sessionId: 's1', timestamp: '2026-03-01T10:00:00Z',
+      type: 'product_viewed', productId: 1, title: 'Backpack', price: 109.95, list: 'home'
+    } as never);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Analytics Helpers
+ * Pure functions to stamp events for delivery and to check
+ * event batches received by the events API
+ */
+
+import { AnalyticsEvent, AnalyticsEventType, TrackedEvent } from '../core/model/analytics';
+
+/**
+ * Fields every event of a type must carry, besides `type`
+ */
+const REQUIRED_FIELDS: Record<AnalyticsEventType, Record<string, 'number' | 'string'>> = {
+  product_viewed: { productId: 'number', title: 'string', price: 'number' },
+  added_to_cart: { productId: 'number', title: 'string', price: 'number', quantity: 'number' },
+  removed_from_cart: { productId: 'number', title: 'string', price: 'number', quantity: 'number' },
+  discount_applied: { code: 'string', amount: 'number' },
+  checkout_started: { itemCount: 'number', value: 'number' },
+  order_placed: { orderId: 'string', value: 'number', currency: 'string', itemCount: 'number', paymentMethod: 'string' }
+};
+
+/**
+ * Fields an event of a type may carry; kept when they have the right type
+ */
+const OPTIONAL_FIELDS: Partial<Record<AnalyticsEventType, Record<string, 'number' | 'string'>>> = {
+  product_viewed: { category: 'string', list: 'string' }
+};
+
+/**
+ * Longest string accepted in any event field
+ */
+const MAX_STRING_LENGTH = 200;
+
+/**
+ * Every event type, e.g. for validation or reports
+ */
+export const ANALYTICS_EVENT_TYPES = Object.keys(REQUIRED_FIELDS) as AnalyticsEventType[];
+
+/**
+ * Stamp an event with an id, session and time
+ * @param event - Event payload
+ * @param sessionId - Browser tab session
+ * @param now - Current time
+ * @returns Event ready for the sinks
+ */
+export function createTrackedEvent(event: AnalyticsEvent, sessionId: string, now: Date = new Date()): TrackedEvent {
+  return { ...event, id: createAnalyticsId(), sessionId, timestamp: now.toISOString() };
+}
+
+/**
+ * Random id for events and sessions
+ */
+export function createAnalyticsId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 10);
+}
+
+/**
+ * Check that an untrusted value is a well-formed tracked event
+ * @param value - Parsed JSON from a request
+ * @returns True when the type is known and all required fields have the right type
+ */
+export function isTrackedEvent(value: unknown): value is TrackedEvent {
+  if (typeof value !== 'object' || value === null) return false;
+
+  const event = value as Record<string, unknown>;
+  const type = event['type'];
+  if (typeof type !== 'string' || !Object.hasOwn(REQUIRED_FIELDS, type)) return false;
+
+  return (
+    isField(event['id'], 'string') &&
+    isField(event['sessionId'], 'string') &&
+    isField(event['timestamp'], 'string') &&
+    !isNaN(Date.parse(event['timestamp'] as string)) &&
+    Object.entries(REQUIRED_FIELDS[type as AnalyticsEventType]).every(([field, kind]) => isField(event[field], kind))
+  );
+}
+
+/**
+ * Copy a checked event with only the fields its type defines
+ * Anything else the client sent is dropped before the event is stored.
+ * @param event - Event that passed isTrackedEvent
+ * @returns Event with its type, id, session, time and known fields
+ */
+export function toStoredEvent(event: TrackedEvent): TrackedEvent {
+  const source = event as Record<string, unknown>;
+  const fields = { ...REQUIRED_FIELDS[event.type], ...OPTIONAL_FIELDS[event.type] };
+  const stored: Record<string, unknown> = { type: event.type, id: event.id, sessionId: event.sessionId, timestamp: event.timestamp };
+
+  Object.entries(fields).forEach(([field, kind]) => {
+    if (isField(source[field], kind)) stored[field] = source[field];
+  });
+  return stored as TrackedEvent;
+}
+
+function isField(value: unknown, kind: 'number' | 'string'): boolean {
+  return kind === 'number'
+    ? typeof value === 'number' && Number.isFinite(value)
+    : typeof value === 'string' && value.length <= MAX_STRING_LENGTH;
+}
@@ -0,0 +1,40 @@
+import { BUNDLES } from '../core/data/bundles';
+import { DEFAULT_ITEM_WEIGHT } from '../core/data/shipping';
+import { explodeBundle, formatBundleContents, getBundleInventory, getBundleSavings, getBundleWeight } from './bundles';
+import { getProductInventory } from './quantity-rules';
+
+describe('bundles', () => {
+  const [storageKit, backupBundle] = BUNDLES;
+
+  it('limits bundles by the scarcest component', () => {
+    // The 2TB drive (25 in stock, 5 per order) is the only tracked component
+    expect(getBundleInventory(storageKit)).toEqual(jasmine.objectContaining({ stock: 25, maxPerOrder: 5 }));
+    // Two drives per bundle: 12 bundles in stock, 2 per order despite the bundle's own limit of 3
+    expect(getBundleInventory(backupBundle)).toEqual(jasmine.objectContaining({ stock: 12, maxPerOrder: 2 }));
+    expect(getProductInventory(backupBundle).stock).toBe(12);
+  });
+
+  it('takes component limits from the products themselves', () => {
+    const inventory = getBundleInventory(backupBundle, productId => productId === 12 ? { stock: 1 } : {});
+    expect(inventory).toEqual(jasmine.objectContaining({ stock: 1, maxPerOrder: 3 }));
+  });
+
+  it('adds up weight and savings per bundle', () => {
+    expect(getBundleWeight(backupBundle.bundle!)).toBeCloseTo(3 * DEFAULT_ITEM_WEIGHT);
+    expect(getBundleSavings(storageKit)).toBe(23.01);
+  });
+
+  it('explodes a line into components that add up to the line total', () => {
+    const components = explodeBundle({ price: backupBundle.price, quantity: 2, bundle: backupBundle.bundle });
+
+    expect(components.map(c => c.quantity)).toEqual([2, 4]);
+    expect(components.reduce((sum, c) => sum + Math.round(c.subtotal * 100), 0)).toBe(43998);
+  });
+
+  it('describes the contents', () => {
+    expect(formatBundleContents([
+      { productId: 12, title: 'WD 4TB Gaming Drive', image: '', price: 114, quantity: 1 },
+      { productId: 9, title: 'WD 2TB Elements', image: '', price: 64, quantity: 2 }
+    ])).toBe('WD 4TB Gaming Drive, 2 × WD 2TB Elements');
+  });
+});
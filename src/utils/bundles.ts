@@ -0,0 +1,110 @@
+/**
+ * Bundle Helpers
+ * Pure functions for bundle products: limits derived from the components'
+ * stock, weight, savings, and splitting a bundle line into its components
+ */
+
+import { BundleComponent, Product, ProductInventory } from '../core/model/product';
+import { DEFAULT_ITEM_WEIGHT } from '../core/data/shipping';
+import { INVENTORY } from '../core/data/inventory';
+import { addMoney, allocateMoney, multiplyMoney, subtractMoney, toMajor, toMoney } from './money';
+
+/**
+ * A bundle line split into what has to be picked and packed
+ */
+export interface ExplodedComponent {
+  productId: number;
+  title: string;
+  quantity: number; // Units for the whole line
+  subtotal: number; // Share of the line total, by standalone value
+}
+
+/**
+ * Check if a product or cart line is a bundle
+ */
+export function isBundle(product: Pick<Product, 'bundle'>): boolean {
+  return !!product.bundle?.length;
+}
+
+/**
+ * Stock and limits of a bundle
+ * A bundle can only be sold while every component can: its stock and
+ * max-per-order are the lowest number of whole bundles the components allow.
+ * @param product - Bundle with its own limits and its components
+ * @param getComponentInventory - Stock and limits of a component product (default: its INVENTORY entry)
+ * @returns Inventory fields for the bundle line
+ */
+export function getBundleInventory(
+  product: ProductInventory & Pick<Product, 'bundle'>,
+  getComponentInventory: (productId: number) => ProductInventory = productId => INVENTORY[productId] ?? {}
+): ProductInventory {
+  const components = (product.bundle ?? []).map(c => ({ quantity: c.quantity, ...getComponentInventory(c.productId) }));
+
+  return {
+    stock: lowest(product.stock, ...components.map(c => wholeBundles(c.stock, c.quantity))),
+    maxPerOrder: lowest(product.maxPerOrder, ...components.map(c => wholeBundles(c.maxPerOrder, c.quantity))),
+    minQuantity: product.minQuantity,
+    quantityStep: product.quantityStep
+  };
+}
+
+/**
+ * Shipping weight of one bundle in kg
+ */
+export function getBundleWeight(components: BundleComponent[]): number {
+  return components.reduce((total, c) => total + (c.weight ?? DEFAULT_ITEM_WEIGHT) * c.quantity, 0);
+}
+
+/**
+ * Shipping weight of a product, summed from the components for bundles
+ */
+export function getProductWeight(product: Pick<Product, 'weight' | 'bundle'>): number | undefined {
+  return product.weight ?? (isBundle(product) ? getBundleWeight(product.bundle!) : undefined);
+}
+
+/**
+ * How much a bundle saves over buying its components separately
+ * @returns Savings in dollars (0 when the bundle costs more)
+ */
+export function getBundleSavings(product: Pick<Product, 'price' | 'bundle'>): number {
+  const separately = addMoney(...(product.bundle ?? []).map(c => multiplyMoney(toMoney(c.price), c.quantity)));
+  return Math.max(0, toMajor(subtractMoney(separately, toMoney(product.price))));
+}
+
+/**
+ * Split a bundle line into its components for fulfilment
+ * The line total is spread over the components by their standalone value,
+ * so the component subtotals add up to the line total to the cent.
+ * @param line - Bundle line (unit price, quantity and components)
+ * @returns One entry per component
+ */
+export function explodeBundle(line: { price: number; quantity: number; bundle?: BundleComponent[] }): ExplodedComponent[] {
+  const components = line.bundle ?? [];
+  const lineTotal = multiplyMoney(toMoney(line.price), line.quantity);
+  const shares = allocateMoney(lineTotal, components.map(c => toMoney(c.price) * c.quantity));
+
+  return components.map((component, index) => ({
+    productId: component.productId,
+    title: component.title,
+    quantity: component.quantity * line.quantity,
+    subtotal: toMajor(shares[index])
+  }));
+}
+
+/**
+ * Describe a bundle's contents (e.g. "WD 4TB Gaming Drive, 2 × WD 2TB Elements")
+ */
+export function formatBundleContents(components: BundleComponent[] | undefined): string {
+  return (components ?? [])
+    .map(c => (c.quantity > 1 ? `${c.quantity} × ${c.title}` : c.title))
+    .join(', ');
+}
+
+function wholeBundles(units: number | undefined, perBundle: number): number | undefined {
+  return units === undefined ? undefined : Math.floor(units / perBundle);
+}
+
+function lowest(...values: (number | undefined)[]): number | undefined {
+  const defined = values.filter((value): value is number => value !== undefined);
+  return defined.length ? Math.min(...defined) : undefined;
+}
@@ -1,22 +1,26 @@
 /**
  * Cart Helper Functions
  * Utility functions for cart operations and calculations
- * These are pure functions that can be used across the application
+ * These are pure functions that can be used across the application.
+ * Discounts, shipping, tax and totals are priced by utils/pricing.
  */
 
+import { Product, SelectedOptions } from '../core/model/product';
+import { convertFromBase, formatMoney, getCurrency } from './currency';
+import { getProductInventory } from './quantity-rules';
+import { getProductWeight } from './bundles';
+import { addMoney, multiplyMoney, toMajor, toMoney } from './money';
+
 /**
  * Format price to currency string
- * @param price - Price amount in dollars
- * @param currency - Currency code (default: USD)
+ * @param price - Price amount in base currency (USD)
+ * @param currency - Currency to display in (default: USD)
+ * @param rate - Exchange rate to convert with (default: the configured rate)
  * @returns Formatted price string (e.g., "$19.99")
  */
-export function formatPrice(price: number, currency: string = 'USD'): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: currency,
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2
-  }).format(price);
+export function formatPrice(price: number, currency: string = 'USD', rate?: number): string {
+  const config = getCurrency(currency);
+  return formatMoney(convertFromBase(price, config, rate), config);
 }
 
 /**
@@ -33,80 +37,27 @@ export function formatCurrency(price: number): string {
  * @param items - Array of cart items
  * @returns Subtotal amount
  */
-export function calculateSubtotal(items: any[]): number {
-  return items.reduce((total, item) => total + (item.price * item.quantity), 0);
-}
-
-/**
- * Calculate total item count
- * @param items - Array of cart items
- * @returns Total quantity of all items
- */
-export function calculateItemCount(items: any[]): number {
-  return items.reduce((count, item) => count + item.quantity, 0);
-}
-
-/**
- * Calculate discount amount
- * @param subtotal - Cart subtotal
- * @param discountType - 'percentage' or 'fixed'
- * @param discountValue - Discount value (percentage or fixed amount)
- * @param maxDiscount - Maximum discount cap (for percentages)
- * @returns Discount amount in dollars
- */
-export function calculateDiscount(
-  subtotal: number,
-  discountType: 'percentage' | 'fixed',
-  discountValue: number,
-  maxDiscount?: number
-): number {
-  if (discountType === 'percentage') {
-    const amount = (subtotal * discountValue) / 100;
-    return maxDiscount ? Math.min(amount, maxDiscount) : amount;
-  }
-  return discountValue;
+export function calculateSubtotal(items: { price: number; quantity: number }[]): number {
+  return toMajor(addMoney(...items.map(item => multiplyMoney(toMoney(item.price), item.quantity))));
 }
 
 /**
- * Calculate tax amount
- * @param amount - Amount to calculate tax on
- * @param taxRate - Tax rate as decimal (0.10 = 10%)
- * @returns Tax amount
+ * Calculate the total of one cart line
+ * @param price - Unit price
+ * @param quantity - Units on the line
+ * @returns Line total, rounded to the cent
  */
-export function calculateTax(amount: number, taxRate: number = 0.10): number {
-  return Math.round(amount * taxRate * 100) / 100;
-}
-
-/**
- * Calculate shipping cost
- * @param subtotal - Cart subtotal
- * @param shippingCost - Fixed shipping cost
- * @param freeShippingThreshold - Subtotal amount for free shipping
- * @returns Shipping cost (0 if qualifies for free shipping)
- */
-export function calculateShipping(
-  subtotal: number,
-  shippingCost: number = 10,
-  freeShippingThreshold: number = 100
-): number {
-  return subtotal >= freeShippingThreshold ? 0 : shippingCost;
+export function calculateLineTotal(price: number, quantity: number): number {
+  return toMajor(multiplyMoney(toMoney(price), quantity));
 }
 
 /**
- * Calculate final total
- * @param subtotal - Cart subtotal
- * @param discount - Discount amount
- * @param tax - Tax amount
- * @param shipping - Shipping cost
- * @returns Final total amount
+ * Calculate total item count
+ * @param items - Array of cart items
+ * @returns Total quantity of all items
  */
-export function calculateTotal(
-  subtotal: number,
-  discount: number,
-  tax: number,
-  shipping: number
-): number {
-  return Math.round((subtotal - discount + tax + shipping) * 100) / 100;
+export function calculateItemCount(items: { quantity: number }[]): number {
+  return items.reduce((count, item) => count + item.quantity, 0);
 }
 
 /**
@@ -158,7 +109,7 @@ export function getDiscountMessage(
  * @param ascending - Sort order (default: true)
  * @returns Sorted array
  */
-export function sortCartItems(items: any[], ascending: boolean = true): any[] {
+export function sortCartItems<T extends { title: string }>(items: T[], ascending: boolean = true): T[] {
   return [...items].sort((a, b) => {
     const comparison = a.title.localeCompare(b.title);
     return ascending ? comparison : -comparison;
@@ -172,11 +123,11 @@ export function sortCartItems(items: any[], ascending: boolean = true): any[] {
  * @param maxPrice - Maximum price
  * @returns Filtered array
  */
-export function filterCartItemsByPrice(
-  items: any[],
+export function filterCartItemsByPrice<T extends { price: number }>(
+  items: T[],
   minPrice: number = 0,
   maxPrice: number = Infinity
-): any[] {
+): T[] {
   return items.filter(item => item.price >= minPrice && item.price <= maxPrice);
 }
 
@@ -218,36 +169,86 @@ export function getAmountUntilFreeShipping(
   return Math.max(0, needed);
 }
 
+/**
+ * Progress towards free shipping
+ * @param subtotal - Current cart subtotal
+ * @param freeShippingThreshold - Required amount
+ * @returns Percentage from 0 to 100
+ */
+export function getFreeShippingProgress(
+  subtotal: number,
+  freeShippingThreshold: number = 100
+): number {
+  if (freeShippingThreshold <= 0) return 100;
+  return Math.min(100, Math.max(0, Math.floor((subtotal / freeShippingThreshold) * 100)));
+}
+
+/**
+ * Build the key identifying a cart line
+ * The same product with different selected options is a different line
+ * @param productId - Product id
+ * @param options - Selected options (e.g. { Size: 'M', Colour: 'Red' })
+ * @returns Line key (e.g. "12|Colour=Red|Size=M")
+ */
+export function getLineKey(productId: number, options?: SelectedOptions): string {
+  const parts = Object.keys(options ?? {})
+    .sort()
+    .map(name => `${name}=${options![name]}`);
+  return [String(productId), ...parts].join('|');
+}
+
+/**
+ * Format selected options for display
+ * @param options - Selected options
+ * @returns Display text (e.g. "Size: M · Colour: Red")
+ */
+export function formatSelectedOptions(options?: SelectedOptions): string {
+  return Object.entries(options ?? {})
+    .map(([name, value]) => `${name}: ${value}`)
+    .join(' · ');
+}
+
 /**
  * Create cart item from product
  * @param product - Product object
  * @param quantity - Quantity to add (default: 1)
+ * @param options - Selected options, if the product has variants
  * @returns Cart item object
  */
-export function createCartItem(product: any, quantity: number = 1): any {
+export function createCartItem(product: Product, quantity: number = 1, options?: SelectedOptions) {
   return {
+    key: getLineKey(product.id, options),
     id: product.id,
     title: product.title,
     price: product.price,
     image: product.image,
+    category: product.category,
+    weight: getProductWeight(product),
+    options,
+    bundle: product.bundle,
+    ...getProductInventory(product),
     quantity: Math.max(1, quantity)
   };
 }
 
 /**
  * Merge duplicate items in cart
+ * Items are duplicates when they share a line key (product + selected options)
  * @param items - Array of cart items
  * @returns Array with merged quantities
  */
-export function mergeDuplicateItems(items: any[]): any[] {
-  const merged = new Map();
+export function mergeDuplicateItems<T extends { id: number; quantity: number; options?: SelectedOptions }>(
+  items: T[]
+): (T & { key: string })[] {
+  const merged = new Map<string, T & { key: string }>();
 
   items.forEach(item => {
-    if (merged.has(item.id)) {
-      const existing = merged.get(item.id);
+    const key = getLineKey(item.id, item.options);
+    const existing = merged.get(key);
+    if (existing) {
       existing.quantity += item.quantity;
     } else {
-      merged.set(item.id, { ...item });
+      merged.set(key, { ...item, key });
     }
   });
 
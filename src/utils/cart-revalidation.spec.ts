@@ -0,0 +1,40 @@
+import { getCartChanges, revalidateCartItems, RevalidatedLine, summarizeCartChanges } from './cart-revalidation';
+
+describe('cart-revalidation', () => {
+  const line: RevalidatedLine = { key: '1', id: 1, title: 'Backpack', price: 100 };
+
+  it('updates changed prices and remembers the old one', () => {
+    const [item] = revalidateCartItems([line], [{ id: 1, price: 90 }]);
+    expect(item.price).toBe(90);
+    expect(item.previousPrice).toBe(100);
+  });
+
+  it('keeps the price the shopper saw across repeated changes', () => {
+    const [first] = revalidateCartItems([line], [{ id: 1, price: 90 }]);
+    const [second] = revalidateCartItems([first], [{ id: 1, price: 95 }]);
+    expect(second.previousPrice).toBe(100);
+
+    const [back] = revalidateCartItems([second], [{ id: 1, price: 100 }]);
+    expect(back.previousPrice).toBeUndefined();
+  });
+
+  it('flags products missing from the catalog', () => {
+    const items = revalidateCartItems([line], []);
+    expect(items[0].unavailable).toBeTrue();
+    expect(getCartChanges(items)).toEqual([{ key: '1', title: 'Backpack', type: 'discontinued' }]);
+  });
+
+  it('leaves unchanged lines alone', () => {
+    const items = revalidateCartItems([line], [{ id: 1, price: 100 }]);
+    expect(items[0]).toBe(line);
+    expect(getCartChanges(items)).toEqual([]);
+  });
+
+  it('summarises changes', () => {
+    expect(summarizeCartChanges([
+      { key: '1', title: 'A', type: 'price_changed', oldPrice: 1, newPrice: 2 },
+      { key: '2', title: 'B', type: 'price_changed', oldPrice: 1, newPrice: 2 },
+      { key: '3', title: 'C', type: 'discontinued' }
+    ])).toBe('Prices changed for 2 items and 1 item is no longer available');
+  });
+});
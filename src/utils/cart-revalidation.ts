@@ -0,0 +1,93 @@
+/**
+ * Cart Revalidation Helpers
+ * Pure functions that compare cart lines with the current catalog,
+ * flag what changed and describe the changes to the shopper
+ */
+
+/**
+ * The parts of a cart line revalidation looks at
+ */
+export interface RevalidatedLine {
+  key: string;
+  id: number;
+  title: string;
+  price: number;
+  previousPrice?: number; // Price when added, while the shopper hasn't acknowledged a change
+  unavailable?: boolean;  // No longer in the catalog
+}
+
+/**
+ * A change the shopper has to acknowledge before checkout
+ */
+export interface CartChange {
+  key: string;
+  title: string;
+  type: 'price_changed' | 'discontinued';
+  oldPrice?: number;
+  newPrice?: number;
+}
+
+/**
+ * Bring cart lines in line with the catalog
+ * Changed prices are updated and remember the price the shopper saw;
+ * lines whose product is gone are flagged unavailable.
+ * @param items - Cart lines
+ * @param catalog - Current products (id and price)
+ * @returns Updated lines (unchanged lines are returned as-is)
+ */
+export function revalidateCartItems<T extends RevalidatedLine>(
+  items: T[],
+  catalog: { id: number; price: number }[]
+): T[] {
+  const prices = new Map(catalog.map(product => [product.id, product.price]));
+
+  return items.map(item => {
+    const price = prices.get(item.id);
+
+    if (price === undefined) {
+      return item.unavailable ? item : { ...item, unavailable: true };
+    }
+
+    const originalPrice = item.previousPrice ?? item.price;
+    const { previousPrice, unavailable, ...line } = item;
+
+    if (price === item.price && !unavailable) return item;
+
+    return (price === originalPrice
+      ? { ...line, price }
+      : { ...line, price, previousPrice: originalPrice }) as T;
+  });
+}
+
+/**
+ * Changes flagged on cart lines that haven't been acknowledged
+ * @param items - Cart lines
+ * @returns One change per flagged line
+ */
+export function getCartChanges(items: RevalidatedLine[]): CartChange[] {
+  return items
+    .filter(item => item.unavailable || item.previousPrice !== undefined)
+    .map(item => item.unavailable
+      ? { key: item.key, title: item.title, type: 'discontinued' as const }
+      : { key: item.key, title: item.title, type: 'price_changed' as const, oldPrice: item.previousPrice, newPrice: item.price });
+}
+
+/**
+ * Describe changes in one sentence for a toast
+ * @param changes - Cart changes
+ * @returns Summary text (e.g., "Prices changed for 2 items and 1 item is no longer available")
+ */
+export function summarizeCartChanges(changes: CartChange[]): string {
+  const priceChanges = changes.filter(c => c.type === 'price_changed').length;
+  const discontinued = changes.filter(c => c.type === 'discontinued').length;
+  const parts: string[] = [];
+
+  if (priceChanges > 0) {
+    parts.push(`Prices changed for ${priceChanges} item${priceChanges === 1 ? '' : 's'}`);
+  }
+  if (discontinued > 0) {
+    parts.push(`${discontinued} item${discontinued === 1 ? ' is' : 's are'} no longer available`);
+  }
+
+  return parts.join(' and ');
+}
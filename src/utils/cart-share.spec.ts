@@ -0,0 +1,47 @@
+import { Product } from '../core/model/product';
+import { decodeSharedCart, encodeSharedCart, resolveSharedCart } from './cart-share';
+
+describe('cart-share', () => {
+  const product = (overrides: Partial<Product>): Product => ({
+    id: 100,
+    title: 'Mug',
+    price: 10,
+    description: '',
+    category: 'kitchen',
+    image: 'mug.png',
+    ...overrides
+  });
+
+  it('round-trips lines, options and codes', () => {
+    const cart = {
+      items: [{ id: 100, quantity: 2 }, { id: 101, quantity: 1, options: { Size: 'M', Colour: 'Black' } }],
+      codes: ['SAVE10']
+    };
+    expect(decodeSharedCart(encodeSharedCart(cart))).toEqual({
+      items: [{ id: 100, quantity: 2, options: undefined }, cart.items[1]],
+      codes: ['SAVE10']
+    });
+  });
+
+  it('rejects damaged tokens', () => {
+    expect(decodeSharedCart('not-a-token')).toBeNull();
+    expect(decodeSharedCart(btoa('{"i":"x"}'))).toBeNull();
+  });
+
+  it('validates products, options and stock against the catalog', () => {
+    const shirt = product({ id: 101, title: 'Shirt', category: "men's clothing" });
+    const soldOut = product({ id: 102, title: 'Lamp', stock: 0 });
+    const result = resolveSharedCart({
+      items: [
+        { id: 100, quantity: 3 },
+        { id: 101, quantity: 1, options: { Size: 'Huge', Colour: 'Black' } },
+        { id: 102, quantity: 1 },
+        { id: 999, quantity: 1 }
+      ],
+      codes: []
+    }, [product({ stock: 2 }), shirt, soldOut]);
+
+    expect(result.lines.map(line => [line.product.id, line.quantity])).toEqual([[100, 2]]);
+    expect(result.rejected.map(line => line.reason)).toEqual(['invalid_options', 'out_of_stock', 'not_found']);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Cart Share Helpers
+ * Pure functions that pack a cart into a compact URL token and
+ * check a shared cart against the catalog before it is imported
+ */
+
+import { Product, SelectedOptions } from '../core/model/product';
+import { getProductOptions } from './product-options';
+import { getProductInventory, getQuantityRules, getUnitsHeld, normalizeQuantity } from './quantity-rules';
+
+/**
+ * Cart contents carried by a share link
+ */
+export interface SharedCart {
+  items: { id: number; quantity: number; options?: SelectedOptions }[];
+  codes: string[];
+}
+
+/**
+ * A shared line that passed validation, ready for CartService.addToCart
+ */
+export interface ImportLine {
+  product: Product;
+  options?: SelectedOptions;
+  quantity: number;
+}
+
+/**
+ * A shared line that can't be imported
+ */
+export interface RejectedLine {
+  id: number;
+  title: string;
+  reason: 'not_found' | 'invalid_options' | 'out_of_stock';
+}
+
+/**
+ * Pack cart contents into a URL-safe token
+ * Lines are stored as [id, quantity, options?] to keep links short.
+ * @param cart - Lines and discount codes
+ * @returns base64url token
+ */
+export function encodeSharedCart(cart: SharedCart): string {
+  const payload: [number, number, SelectedOptions?][] = cart.items.map(item =>
+    item.options && Object.keys(item.options).length
+      ? [item.id, item.quantity, item.options]
+      : [item.id, item.quantity]
+  );
+  const json = JSON.stringify(cart.codes.length ? { i: payload, c: cart.codes } : { i: payload });
+  return toBase64Url(json);
+}
+
+/**
+ * Unpack a share token
+ * @param token - Token from the link
+ * @returns Shared cart, or null if the token is damaged
+ */
+export function decodeSharedCart(token: string): SharedCart | null {
+  try {
+    const parsed = JSON.parse(fromBase64Url(token));
+    if (!Array.isArray(parsed?.i)) return null;
+
+    const items = (parsed.i as unknown[])
+      .filter((line): line is [number, number, SelectedOptions?] =>
+        Array.isArray(line) && Number.isInteger(line[0]) && Number.isInteger(line[1]) && line[1] > 0)
+      .map(([id, quantity, options]) => ({ id, quantity, options: options ?? undefined }));
+    const codes = Array.isArray(parsed.c) ? parsed.c.filter((code: unknown) => typeof code === 'string') : [];
+
+    return items.length ? { items, codes } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check shared lines against the catalog
+ * Options must be ones the product offers; quantities are fitted to its limits,
+ * which earlier lines of the same product (or bundles containing it) share.
+ * @param cart - Decoded shared cart
+ * @param catalog - Current products
+ * @returns Lines that can be imported and lines that can't
+ */
+export function resolveSharedCart(cart: SharedCart, catalog: Product[]): { lines: ImportLine[]; rejected: RejectedLine[] } {
+  const lines: ImportLine[] = [];
+  const rejected: RejectedLine[] = [];
+
+  cart.items.forEach(item => {
+    const product = catalog.find(p => p.id === item.id);
+    if (!product) {
+      rejected.push({ id: item.id, title: `Product #${item.id}`, reason: 'not_found' });
+      return;
+    }
+
+    if (!hasValidOptions(product, item.options)) {
+      rejected.push({ id: item.id, title: product.title, reason: 'invalid_options' });
+      return;
+    }
+
+    const held = getUnitsHeld(lines.map(line => ({ id: line.product.id, quantity: line.quantity, bundle: line.product.bundle })));
+    const quantity = normalizeQuantity(item.quantity, getQuantityRules(getProductInventory(product, held)));
+    if (quantity === 0) {
+      rejected.push({ id: item.id, title: product.title, reason: 'out_of_stock' });
+      return;
+    }
+
+    lines.push({ product, options: item.options, quantity });
+  });
+
+  return { lines, rejected };
+}
+
+function hasValidOptions(product: Product, selected?: SelectedOptions): boolean {
+  const options = getProductOptions(product);
+  const chosen = selected ?? {};
+
+  return Object.keys(chosen).length === options.length
+    && options.every(option => option.values.includes(chosen[option.name]));
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  const binary = Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(token: string): string {
+  const binary = atob(token.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
@@ -0,0 +1,39 @@
+import { Product } from '../core/model/product';
+import { findCategory, getCategories, toCategorySlug } from './categories';
+
+describe('categories', () => {
+  const product = (id: number, category: string): Product => ({
+    id,
+    title: `Product ${id}`,
+    price: 10,
+    description: '',
+    category,
+    image: `${id}.jpg`
+  });
+
+  it('turns category names into URL segments', () => {
+    expect(toCategorySlug("men's clothing")).toBe('mens-clothing');
+    expect(toCategorySlug('Home & Living')).toBe('home-living');
+  });
+
+  it('counts the products in each category', () => {
+    const categories = getCategories([product(1, 'jewelery'), product(2, "men's clothing"), product(3, 'jewelery')]);
+
+    expect(categories.map(c => [c.slug, c.count])).toEqual([['jewelery', 2], ['mens-clothing', 1]]);
+    expect(categories[0]).toEqual(jasmine.objectContaining({ name: 'jewelery', label: 'Jewellery', image: '1.jpg' }));
+  });
+
+  it('shows unknown categories with a readable name', () => {
+    const [category] = getCategories([product(1, 'office supplies')]);
+
+    expect(category.label).toBe('Office Supplies');
+    expect(category.theme.icon).toBe('tag');
+  });
+
+  it('finds a category by slug', () => {
+    const categories = getCategories([product(1, "women's clothing")]);
+
+    expect(findCategory(categories, 'womens-clothing')?.name).toBe("women's clothing");
+    expect(findCategory(categories, 'shoes')).toBeUndefined();
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Category Helpers
+ * Pure functions that derive the category list, with real product
+ * counts, from the catalog
+ */
+
+import { Category } from '../core/model/category';
+import { Product } from '../core/model/product';
+import { CATEGORY_DETAILS, DEFAULT_CATEGORY_THEME } from '../core/data/categories';
+
+/**
+ * URL segment for a category name
+ * e.g. "men's clothing" -> 'mens-clothing'
+ */
+export function toCategorySlug(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Every category in the catalog, in the order first seen
+ * @param products - Whole catalog
+ * @returns Categories with their product counts
+ */
+export function getCategories(products: Product[]): Category[] {
+  const categories = new Map<string, Category>();
+
+  for (const product of products) {
+    const slug = toCategorySlug(product.category);
+    const existing = categories.get(slug);
+    if (existing) {
+      existing.count++;
+      continue;
+    }
+
+    const details = CATEGORY_DETAILS[product.category.toLowerCase()];
+    categories.set(slug, {
+      slug,
+      name: product.category,
+      label: getCategoryLabel(product.category),
+      description: details?.description ?? `Browse ${product.category.toLowerCase()}`,
+      image: product.image,
+      count: 1,
+      theme: details?.theme ?? DEFAULT_CATEGORY_THEME
+    });
+  }
+
+  return [...categories.values()];
+}
+
+/**
+ * Display name for a category name
+ * e.g. 'jewelery' -> 'Jewellery', 'office supplies' -> 'Office Supplies'
+ */
+export function getCategoryLabel(name: string): string {
+  return CATEGORY_DETAILS[name.toLowerCase()]?.label ?? toTitleCase(name);
+}
+
+/**
+ * Find a category by its URL segment
+ */
+export function findCategory(categories: Category[], slug: string | null): Category | undefined {
+  return categories.find(category => category.slug === slug);
+}
+
+function toTitleCase(text: string): string {
+  return text.replace(/(^|\s)\p{L}/gu, letter => letter.toUpperCase());
+}
@@ -0,0 +1,25 @@
+import { convertFromBase, getCurrency, roundToCurrency } from './currency';
+
+describe('currency helpers', () => {
+  it('converts from USD with the configured rate', () => {
+    expect(convertFromBase(10, getCurrency('EUR'))).toBe(9.2);
+  });
+
+  it('rounds EGP to the nearest quarter pound', () => {
+    expect(roundToCurrency(100.1, getCurrency('EGP'))).toBe(100);
+    expect(roundToCurrency(100.2, getCurrency('EGP'))).toBe(100.25);
+  });
+
+  it('keeps three decimals for KWD', () => {
+    expect(convertFromBase(10, getCurrency('KWD'))).toBe(3.07);
+    expect(roundToCurrency(1.23456, getCurrency('KWD'))).toBe(1.235);
+  });
+
+  it('uses a locked-in rate when given one', () => {
+    expect(convertFromBase(10, getCurrency('EGP'), 50)).toBe(500);
+  });
+
+  it('falls back to USD for unknown codes', () => {
+    expect(getCurrency('XYZ').code).toBe('USD');
+  });
+});
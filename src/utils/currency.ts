@@ -0,0 +1,64 @@
+/**
+ * Currency Helpers
+ * Pure functions to convert base-currency amounts and round them
+ * the way each currency is actually paid
+ */
+
+import { Currency, CurrencyCode } from '../core/model/currency';
+import { BASE_CURRENCY, CURRENCIES } from '../core/data/currencies';
+
+/**
+ * Look up a currency
+ * @param code - Currency code
+ * @returns Currency config (base currency if unknown)
+ */
+export function getCurrency(code: CurrencyCode | string): Currency {
+  return CURRENCIES.find(c => c.code === code) ?? CURRENCIES.find(c => c.code === BASE_CURRENCY)!;
+}
+
+/**
+ * Round an amount to what the currency can represent
+ * Uses the cash rounding increment when there is one, else the minor unit
+ * @param amount - Amount in the currency
+ * @param currency - Currency config
+ * @returns Rounded amount
+ */
+export function roundToCurrency(amount: number, currency: Currency): number {
+  const factor = 10 ** currency.fractionDigits;
+  const step = currency.roundingIncrement ?? 1 / factor;
+  const rounded = Math.round(amount / step) * step;
+  return Math.round(rounded * factor) / factor;
+}
+
+/**
+ * Convert an amount from the base currency
+ * @param amount - Amount in the base currency
+ * @param currency - Target currency
+ * @param rate - Exchange rate to use (default: the currency's configured rate)
+ * @returns Rounded amount in the target currency
+ */
+export function convertFromBase(amount: number, currency: Currency, rate: number = currency.rate): number {
+  return roundToCurrency(amount * rate, currency);
+}
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+/**
+ * Format an amount already in a currency
+ * @param amount - Amount in the currency
+ * @param currency - Currency config
+ * @returns Localised price string (e.g., "EGP 970.00", "18,40 €")
+ */
+export function formatMoney(amount: number, currency: Currency): string {
+  let formatter = formatters.get(currency.code);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(currency.locale, {
+      style: 'currency',
+      currency: currency.code,
+      minimumFractionDigits: currency.fractionDigits,
+      maximumFractionDigits: currency.fractionDigits
+    });
+    formatters.set(currency.code, formatter);
+  }
+  return formatter.format(amount);
+}
@@ -0,0 +1,87 @@
+import { GiftCard } from '../core/model/gift-card';
+import {
+  generateGiftCardCode,
+  isGiftCardRejection,
+  isValidGiftCardCode,
+  maskGiftCardCode,
+  normalizeGiftCardCode,
+  planGiftCardRedemptions,
+  redeemGiftCards
+} from './gift-cards';
+import { formatPrice } from './cart-helpers';
+
+describe('gift-cards', () => {
+  const card = (code: string, balance: number, extra: Partial<GiftCard> = {}): GiftCard => ({
+    code,
+    initialBalance: balance,
+    balance,
+    issuedAt: '2026-01-01T00:00:00.000Z',
+    transactions: [],
+    ...extra
+  });
+
+  const A = 'AAAA-BBBB-CCCC-DDDD';
+  const B = 'EEEE-FFFF-GGGG-HHHH';
+
+  it('normalises, validates and masks codes', () => {
+    expect(normalizeGiftCardCode(' aaaa bbbb-cccc dddd')).toBe(A);
+    expect(isValidGiftCardCode('aaaabbbbccccdddd')).toBeTrue();
+    expect(isValidGiftCardCode('AAAA-BBBB-CCCC-DDD0')).toBeFalse();
+    expect(maskGiftCardCode(A)).toBe('••••-••••-••••-DDDD');
+    expect(isValidGiftCardCode(generateGiftCardCode())).toBeTrue();
+  });
+
+  it('plans partial redemptions in the order cards were added', () => {
+    const plan = planGiftCardRedemptions(30, [{ code: A, balance: 25.5 }, { code: B, balance: 10 }]);
+
+    expect(plan).toEqual([
+      { code: A, amount: 25.5, remainingBalance: 0 },
+      { code: B, amount: 4.5, remainingBalance: 5.5 }
+    ]);
+    expect(planGiftCardRedemptions(10, [{ code: A, balance: 25 }, { code: B, balance: 10 }]).length).toBe(1);
+  });
+
+  it('deducts all cards or none', () => {
+    const cards = { [A]: card(A, 20), [B]: card(B, 5) };
+
+    const rejected = redeemGiftCards(cards, 'ord_1', [{ code: A, amount: 10 }, { code: B, amount: 6 }]);
+    expect(isGiftCardRejection(rejected) && rejected.message).toBe(`${maskGiftCardCode(B)} only has $5.00 left`);
+    expect(cards[A].balance).toBe(20);
+
+    const inEuros = redeemGiftCards(cards, 'ord_1', [{ code: B, amount: 6 }], new Date(), 'EUR');
+    expect(isGiftCardRejection(inEuros) && inEuros.message).toContain(formatPrice(5, 'EUR'));
+
+    const redeemed = redeemGiftCards(cards, 'ord_1', [{ code: A, amount: 10 }, { code: B, amount: 5 }]);
+    expect(isGiftCardRejection(redeemed)).toBeFalse();
+    expect(cards[A].balance).toBe(10);
+    expect(cards[B].balance).toBe(0);
+  });
+
+  it('never spends the same balance twice', () => {
+    const cards = { [A]: card(A, 20) };
+
+    redeemGiftCards(cards, 'ord_1', [{ code: A, amount: 15 }]);
+    const replay = redeemGiftCards(cards, 'ord_1', [{ code: A, amount: 15 }]);
+    const other = redeemGiftCards(cards, 'ord_2', [{ code: A, amount: 15 }]);
+    const repeated = redeemGiftCards({ [B]: card(B, 10) }, 'ord_3', [{ code: B, amount: 6 }, { code: B, amount: 6 }]);
+
+    expect(replay).toEqual([{ code: A, amount: 15, remainingBalance: 5 }]);
+    expect(isGiftCardRejection(other) && other.reason).toBe('insufficient_balance');
+    expect(isGiftCardRejection(repeated)).toBeTrue();
+    expect(cards[A].balance).toBe(5);
+  });
+
+  it('rejects expired and disabled cards', () => {
+    const now = new Date('2026-06-01T00:00:00.000Z');
+    const cards = {
+      [A]: card(A, 20, { expiresAt: '2026-05-01T00:00:00.000Z' }),
+      [B]: card(B, 20, { disabled: true })
+    };
+
+    const expired = redeemGiftCards(cards, 'ord_1', [{ code: A, amount: 1 }], now);
+    const disabled = redeemGiftCards(cards, 'ord_1', [{ code: B, amount: 1 }], now);
+
+    expect(isGiftCardRejection(expired) && expired.reason).toBe('expired');
+    expect(isGiftCardRejection(disabled) && disabled.reason).toBe('disabled');
+  });
+});
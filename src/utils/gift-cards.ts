@@ -0,0 +1,175 @@
+/**
+ * Gift Card Helpers
+ * Pure functions shared by the checkout (planning how much to take from
+ * each card) and the gift card API (issuing and redeeming balances)
+ */
+
+import {
+  GiftCard,
+  GiftCardBalance,
+  GiftCardRedemption,
+  GiftCardRedemptionResult,
+  GiftCardRejection,
+  GiftCardRejectionReason
+} from '../core/model/gift-card';
+import { Money, ZERO, addMoney, minMoney, subtractMoney, toMajor, toMoney } from './money';
+import { formatPrice } from './cart-helpers';
+
+// No 0/O or 1/I so codes survive being read out loud
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_PATTERN = /^[A-Z2-9]{16}$/;
+
+/**
+ * Normalise a code as typed by the shopper
+ * @param code - Code with any spacing, dashes or case ("abcd efgh-jklm npqr")
+ * @returns Canonical code ("ABCD-EFGH-JKLM-NPQR")
+ */
+export function normalizeGiftCardCode(code: string): string {
+  const compact = code.replace(/[\s-]/g, '').toUpperCase();
+  return compact.match(/.{1,4}/g)?.join('-') ?? '';
+}
+
+/**
+ * Check if a code has the gift card format
+ */
+export function isValidGiftCardCode(code: string): boolean {
+  return CODE_PATTERN.test(normalizeGiftCardCode(code).replace(/-/g, ''));
+}
+
+/**
+ * Hide all but the last group of a code for receipts and order history
+ * @param code - Gift card code
+ * @returns Masked code ("••••-••••-••••-NPQR")
+ */
+export function maskGiftCardCode(code: string): string {
+  const groups = normalizeGiftCardCode(code).split('-');
+  return groups.map((group, index) => (index === groups.length - 1 ? group : '••••')).join('-');
+}
+
+/**
+ * Generate a new random code
+ * @param random - Random source (default: Math.random)
+ */
+export function generateGiftCardCode(random: () => number = Math.random): string {
+  const chars = Array.from({ length: 16 }, () => CODE_ALPHABET[Math.floor(random() * CODE_ALPHABET.length)]);
+  return normalizeGiftCardCode(chars.join(''));
+}
+
+/**
+ * Check that a card can be spent
+ * @param card - Stored card (undefined when the code doesn't exist)
+ * @param now - Current time
+ * @returns The rejection, or null when the card has a spendable balance
+ */
+export function checkGiftCard(card: GiftCard | undefined, now: Date = new Date()): GiftCardRejection | null {
+  if (!card) return giftCardRejection('not_found');
+  if (card.disabled) return giftCardRejection('disabled');
+  if (card.expiresAt && now >= new Date(card.expiresAt)) return giftCardRejection('expired');
+  if (card.balance <= 0) return giftCardRejection('empty');
+  return null;
+}
+
+/**
+ * Public view of a card for balance lookups
+ */
+export function toGiftCardBalance(card: GiftCard): GiftCardBalance {
+  return { code: card.code, balance: card.balance, expiresAt: card.expiresAt };
+}
+
+/**
+ * Decide how much to take from each card, in the order they were added
+ * Later cards are only used for what the earlier ones don't cover
+ * @param total - Amount due
+ * @param cards - Applied cards with their current balances
+ * @returns One redemption per card that is needed
+ */
+export function planGiftCardRedemptions(total: number, cards: GiftCardBalance[]): GiftCardRedemptionResult[] {
+  let remaining = toMoney(total);
+
+  return cards.flatMap(card => {
+    const balance = toMoney(card.balance);
+    const amount = minMoney(balance, remaining);
+    if (amount <= 0) return [];
+
+    remaining = subtractMoney(remaining, amount);
+    return [{ code: card.code, amount: toMajor(amount), remainingBalance: toMajor(subtractMoney(balance, amount)) }];
+  });
+}
+
+/**
+ * Deduct redemptions from the stored cards, all or nothing
+ * Every redemption is checked before any balance changes. Replaying an
+ * order that was already redeemed returns the original result instead
+ * of charging the cards again.
+ * @param cards - Stored cards keyed by code (modified in place on success)
+ * @param orderId - Order the redemptions pay for
+ * @param redemptions - Amount to take from each card
+ * @param now - Current time
+ * @param currency - Currency to show amounts in (default: USD)
+ * @returns The redemptions made, or why none were
+ */
+export function redeemGiftCards(
+  cards: Record<string, GiftCard>,
+  orderId: string,
+  redemptions: GiftCardRedemption[],
+  now: Date = new Date(),
+  currency: string = 'USD'
+): GiftCardRedemptionResult[] | GiftCardRejection {
+  // Combine repeated codes so one card can't be counted twice
+  const totals = new Map<string, Money>();
+  for (const redemption of redemptions) {
+    const code = normalizeGiftCardCode(redemption.code);
+    if (!isValidGiftCardCode(code) || !(redemption.amount > 0)) {
+      return giftCardRejection('invalid_format');
+    }
+    totals.set(code, addMoney(totals.get(code) ?? ZERO, toMoney(redemption.amount)));
+  }
+
+  const previous = Array.from(totals.keys()).flatMap(code => {
+    const transaction = cards[code]?.transactions.find(t => t.orderId === orderId);
+    return transaction ? [{ code, amount: transaction.amount, remainingBalance: cards[code].balance }] : [];
+  });
+  if (previous.length > 0) return previous;
+
+  for (const [code, amount] of totals) {
+    const problem = checkGiftCard(cards[code], now);
+    if (problem) return problem;
+    if (toMoney(cards[code].balance) < amount) {
+      return giftCardRejection('insufficient_balance', cards[code], currency);
+    }
+  }
+
+  return Array.from(totals.entries()).map(([code, amount]) => {
+    const card = cards[code];
+    card.balance = toMajor(subtractMoney(toMoney(card.balance), amount));
+    card.transactions.push({ orderId, amount: toMajor(amount), createdAt: now.toISOString() });
+    return { code, amount: toMajor(amount), remainingBalance: card.balance };
+  });
+}
+
+/**
+ * Build a rejection with a shopper-facing message
+ * @param reason - Rejection reason
+ * @param card - Card concerned (for balance messages)
+ * @param currency - Currency to show amounts in (default: USD)
+ */
+export function giftCardRejection(reason: GiftCardRejectionReason, card?: GiftCard, currency: string = 'USD'): GiftCardRejection {
+  const code = card ? maskGiftCardCode(card.code) : 'This gift card';
+  const messages: Record<GiftCardRejectionReason, string> = {
+    invalid_format: 'Gift card codes are 16 letters or numbers',
+    not_found: 'This gift card does not exist',
+    disabled: 'This gift card has been disabled',
+    expired: 'This gift card has expired',
+    empty: 'This gift card has no balance left',
+    insufficient_balance: `${code} only has ${formatPrice(card?.balance ?? 0, currency)} left`
+  };
+
+  return { reason, message: messages[reason] };
+}
+
+/**
+ * Check whether a redemption attempt was rejected
+ */
+export function isGiftCardRejection(value: unknown): value is GiftCardRejection {
+  return !Array.isArray(value) && typeof value === 'object' && value !== null && 'reason' in value;
+}
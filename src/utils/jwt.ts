@@ -0,0 +1,19 @@
+/**
+ * JWT Helpers
+ * Read claims from the auth token without verifying it
+ */
+
+/**
+ * Get a stable account id from an auth token
+ * @param token - JWT issued by the auth API
+ * @returns The `id` (or `sub`) claim, or the token itself when it can't be decoded
+ */
+export function getUserIdFromToken(token: string): string {
+  try {
+    const base64 = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const payload = JSON.parse(atob(base64));
+    return String(payload.id ?? payload.sub ?? token);
+  } catch {
+    return token;
+  }
+}
@@ -0,0 +1,29 @@
+import { Money, addMoney, allocateMoney, multiplyMoney, toMajor, toMoney } from './money';
+
+const majors = (shares: Money[]) => shares.map(toMajor);
+
+describe('money', () => {
+  it('converts without float drift', () => {
+    expect(toMoney(1.005)).toBe(toMoney(1.01));
+    expect(toMajor(toMoney(0.1 + 0.2))).toBe(0.3);
+    expect(toMajor(addMoney(toMoney(0.1), toMoney(0.2)))).toBe(0.3);
+  });
+
+  it('rounds products to the cent', () => {
+    expect(toMajor(multiplyMoney(toMoney(19.99), 3))).toBe(59.97);
+    expect(toMajor(multiplyMoney(toMoney(10), 0.145))).toBe(1.45);
+    expect(toMajor(multiplyMoney(toMoney(0.35), 0.5))).toBe(0.18);
+  });
+
+  it('allocates every cent exactly once', () => {
+    const shares = allocateMoney(toMoney(10), [1, 1, 1]);
+    expect(majors(shares)).toEqual([3.34, 3.33, 3.33]);
+    expect(toMajor(addMoney(...shares))).toBe(10);
+  });
+
+  it('allocates in proportion to the weights', () => {
+    expect(majors(allocateMoney(toMoney(5), [30, 70]))).toEqual([1.5, 3.5]);
+    expect(majors(allocateMoney(toMoney(5), [0, 0]))).toEqual([0, 0]);
+    expect(majors(allocateMoney(toMoney(-1), [1, 2]))).toEqual([-0.33, -0.67]);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Money Helpers
+ * Amounts in integer minor units (cents) so sums, discounts and taxes
+ * never pick up floating-point drift. Prices and totals are still
+ * published in major units (dollars); convert at the edges with
+ * toMoney / toMajor and do all arithmetic in between on Money.
+ */
+
+/**
+ * An amount in minor units of the base currency (USD cents)
+ */
+export type Money = number & { readonly __brand: 'Money' };
+
+/**
+ * Minor units per major unit of the base currency
+ */
+export const MINOR_UNITS = 100;
+
+export const ZERO = 0 as Money;
+
+/**
+ * Convert a major-unit amount to Money, rounding half away from zero
+ * @param amount - Amount in dollars (e.g. 19.99)
+ * @returns Amount in cents (1999)
+ */
+export function toMoney(amount: number): Money {
+  // toPrecision drops float noise such as 1.005 * 100 = 100.49999999999999
+  return roundHalfAway(Number((amount * MINOR_UNITS).toPrecision(12)));
+}
+
+/**
+ * Convert Money back to major units
+ * @param money - Amount in cents
+ * @returns Amount in dollars
+ */
+export function toMajor(money: Money): number {
+  return money / MINOR_UNITS;
+}
+
+/**
+ * Add amounts
+ */
+export function addMoney(...amounts: Money[]): Money {
+  return amounts.reduce((sum, amount) => sum + amount, 0) as Money;
+}
+
+/**
+ * Subtract b from a
+ */
+export function subtractMoney(a: Money, b: Money): Money {
+  return (a - b) as Money;
+}
+
+/**
+ * Multiply by a quantity or rate, rounding to the cent
+ */
+export function multiplyMoney(money: Money, factor: number): Money {
+  return roundHalfAway(Number((money * factor).toPrecision(12)));
+}
+
+/**
+ * The smaller of two amounts
+ */
+export function minMoney(a: Money, b: Money): Money {
+  return Math.min(a, b) as Money;
+}
+
+/**
+ * Split an amount across weights without losing or inventing a cent
+ * Largest-remainder method: every share is floored, then the leftover
+ * cents go to the shares with the biggest remainders (earliest first on ties).
+ * @param total - Amount to split
+ * @param weights - One weight per share (e.g. line subtotals)
+ * @returns One share per weight, summing exactly to the total
+ */
+export function allocateMoney(total: Money, weights: number[]): Money[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + Math.max(0, weight), 0);
+  if (totalWeight <= 0) return weights.map(() => ZERO);
+
+  const sign = total < 0 ? -1 : 1;
+  const absolute = Math.abs(total);
+  const exact = weights.map(weight => (absolute * Math.max(0, weight)) / totalWeight);
+  const shares = exact.map(Math.floor);
+  let leftover = absolute - shares.reduce((sum, share) => sum + share, 0);
+
+  exact
+    .map((value, index) => ({ index, remainder: value - shares[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+    .forEach(({ index }) => {
+      if (leftover > 0) {
+        shares[index]++;
+        leftover--;
+      }
+    });
+
+  return shares.map(share => (share * sign) as Money);
+}
+
+function roundHalfAway(value: number): Money {
+  return (Math.sign(value) * Math.round(Math.abs(value))) as Money;
+}
@@ -0,0 +1,58 @@
+import { PricingContext, PricingLine } from '../core/model/pricing';
+import { PROMOTIONS } from '../core/data/promotions';
+import { comparePriceTotals, priceCart } from './pricing';
+
+describe('pricing', () => {
+  const shirt: PricingLine = { key: '1', id: 1, category: "men's clothing", price: 20, quantity: 2, weight: 0.5 };
+  const ring: PricingLine = { key: '2', id: 2, category: 'jewelery', price: 30, quantity: 1, weight: 0.5 };
+
+  const context = (codes: string[] = [], overrides: Partial<PricingContext> = {}): PricingContext => ({
+    promotions: PROMOTIONS.filter(p => codes.includes(p.code)),
+    destination: { country: 'EG', city: 'Cairo' },
+    shippingMethodId: 'standard',
+    ...overrides
+  });
+
+  it('discounts, ships and taxes the lines in order', () => {
+    const breakdown = priceCart([shirt, ring], context(['SAVE10']));
+
+    expect(breakdown.subtotal).toBe(70);
+    expect(breakdown.discountAmount).toBe(7);
+    expect(breakdown.lines.map(line => line.net)).toEqual([36, 27]);
+    expect(breakdown.shippingCost).toBe(6);
+    expect(breakdown.tax).toBe(9.36); // 14% VAT on 63 + 2% stamp duty on the ring's 27
+    expect(breakdown.total).toBe(78.36);
+  });
+
+  it('explains every step and ends on the total', () => {
+    const breakdown = priceCart([shirt, ring], context(['SAVE10', 'FREESHIP']));
+
+    expect(breakdown.explanations.map(step => step.step)).toEqual(['lines', 'discounts', 'discounts', 'shipping', 'tax', 'tax', 'total']);
+    expect(breakdown.explanations.find(step => step.step === 'shipping')?.detail).toBe('Free with FREESHIP');
+    expect(breakdown.explanations[breakdown.explanations.length - 1].amount).toBe(breakdown.total);
+  });
+
+  it('does not add tax that is included in prices', () => {
+    const breakdown = priceCart([{ ...ring, price: 119 }], context([], { destination: { country: 'DE' } }));
+
+    expect(breakdown.taxInclusive).toBeTrue();
+    expect(breakdown.tax).toBe(19);
+    expect(breakdown.total).toBe(119 + breakdown.shippingCost);
+  });
+
+  it('prices an empty cart at zero', () => {
+    const breakdown = priceCart([], context());
+
+    expect(breakdown.total).toBe(0);
+    expect(breakdown.taxRate).toBe(0);
+    expect(breakdown.taxRegion).toBe('Egypt');
+  });
+
+  it('lists the totals that differ to the cent', () => {
+    const breakdown = priceCart([shirt, ring], context());
+
+    expect(comparePriceTotals(breakdown, { ...breakdown })).toEqual([]);
+    expect(comparePriceTotals(breakdown, { ...breakdown, tax: breakdown.tax + 0.01, total: breakdown.total + 0.01 }))
+      .toEqual(['tax', 'total']);
+  });
+});
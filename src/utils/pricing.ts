@@ -0,0 +1,187 @@
+/**
+ * Pricing Pipeline
+ * One pure function that prices a set of lines: line totals, then
+ * discounts, then shipping, then tax, then the total. The cart, the
+ * checkout review, saved orders and the server all price through it,
+ * so they can't disagree. No Angular dependencies.
+ */
+
+import {
+  Discount,
+  PriceBreakdown,
+  PriceTotals,
+  PricedLine,
+  PricingContext,
+  PricingExplanation,
+  PricingLine
+} from '../core/model/pricing';
+import { CurrencyCode } from '../core/model/currency';
+import { Destination } from '../core/model/destination';
+import { Promotion } from '../core/model/promotion';
+import { ShippingQuote } from '../core/model/shipping';
+import { TaxLine } from '../core/model/tax';
+import { evaluatePromotions } from './promotion-engine';
+import { calculateCartWeight, getShippingQuotes, selectShippingQuote } from './shipping';
+import { calculateTaxLines, findTaxRegion, sumTaxLines } from './tax';
+import { formatPrice } from './cart-helpers';
+import { Money, ZERO, addMoney, allocateMoney, multiplyMoney, subtractMoney, toMajor, toMoney } from './money';
+
+/**
+ * Price lines for a destination, shipping method and set of promotions
+ * Cart-level discounts are spread over the lines by line subtotal before
+ * tax. Free shipping thresholds look at the subtotal before discounts,
+ * and an empty cart has nothing to ship.
+ * @param lines - Lines to price
+ * @param context - Promotions, destination and shipping method
+ * @returns Every intermediate amount plus a step-by-step explanation
+ */
+export function priceCart(lines: PricingLine[], context: PricingContext): PriceBreakdown {
+  const subtotals = lines.map(line => multiplyMoney(toMoney(line.price), line.quantity));
+  const subtotal = addMoney(...subtotals);
+  const itemCount = lines.reduce((count, line) => count + line.quantity, 0);
+
+  const discounts = applyDiscounts(lines, context.promotions, context.now ?? new Date(), context.currency);
+  const discountAmount = addMoney(...discounts.map(d => toMoney(d.amount)));
+  const shares = allocateMoney(discountAmount, subtotals);
+  const pricedLines: PricedLine[] = lines.map((line, index) => ({
+    key: line.key,
+    id: line.id,
+    quantity: line.quantity,
+    unitPrice: line.price,
+    subtotal: toMajor(subtotals[index]),
+    discount: toMajor(shares[index]),
+    net: toMajor(subtractMoney(subtotals[index], shares[index]))
+  }));
+
+  const shipping = quoteShipping(lines, toMajor(subtotal), context, discounts);
+  const tax = applyTax(lines, pricedLines, context.destination);
+  const taxAmount = toMoney(tax.amount);
+  const taxBase = subtractMoney(subtotal, addMoney(discountAmount, tax.inclusive ? taxAmount : ZERO));
+  const total = addMoney(
+    subtractMoney(subtotal, discountAmount),
+    tax.inclusive ? ZERO : taxAmount,
+    toMoney(shipping.cost)
+  );
+
+  return {
+    lines: pricedLines,
+    subtotal: toMajor(subtotal),
+    itemCount,
+    discounts,
+    discountAmount: toMajor(discountAmount),
+    shippingOptions: shipping.options,
+    shippingMethod: shipping.selected,
+    shippingCost: shipping.cost,
+    tax: tax.amount,
+    taxRate: taxBase > 0 ? taxAmount / taxBase : 0,
+    taxLines: tax.lines,
+    taxInclusive: tax.inclusive,
+    taxRegion: tax.region,
+    total: toMajor(total),
+    explanations: [
+      { step: 'lines', label: `${itemCount} ${itemCount === 1 ? 'item' : 'items'}`, amount: toMajor(subtotal) },
+      ...explainDiscounts(discounts),
+      ...shipping.explanations,
+      ...explainTax(tax.lines, context.currency),
+      { step: 'total', label: 'Total', amount: toMajor(total) }
+    ]
+  };
+}
+
+/**
+ * Compare the totals of two breakdowns to the cent
+ * @param expected - Breakdown priced by the party that decides (e.g. the server)
+ * @param claimed - Breakdown that is being checked (e.g. a submitted order)
+ * @returns Names of the totals that differ (empty when they match)
+ */
+export function comparePriceTotals(expected: PriceTotals, claimed: PriceTotals): (keyof PriceTotals)[] {
+  const keys: (keyof PriceTotals)[] = ['subtotal', 'discountAmount', 'shippingCost', 'tax', 'total'];
+  return keys.filter(key => toMoney(expected[key]) !== toMoney(claimed[key]));
+}
+
+// ============ STEPS ============
+
+function applyDiscounts(lines: PricingLine[], promotions: Promotion[], now: Date, currency?: CurrencyCode): Discount[] {
+  return evaluatePromotions(promotions, lines, now, currency).map(outcome => ({
+    code: outcome.promotion.code,
+    description: outcome.promotion.description,
+    amount: outcome.amount,
+    freeShipping: outcome.freeShipping,
+    active: outcome.active,
+    message: outcome.message
+  }));
+}
+
+function quoteShipping(
+  lines: PricingLine[],
+  subtotal: number,
+  context: PricingContext,
+  discounts: Discount[]
+): { options: ShippingQuote[]; selected: ShippingQuote | null; cost: number; explanations: PricingExplanation[] } {
+  const options = getShippingQuotes(context.destination, subtotal, calculateCartWeight(lines));
+  const selected = selectShippingQuote(options, context.shippingMethodId);
+  const freeWith = discounts.filter(d => d.active && d.freeShipping).map(d => d.code);
+
+  if (lines.length === 0) {
+    return { options, selected, cost: 0, explanations: [] }; // Nothing to ship
+  }
+
+  if (!selected) {
+    return {
+      options,
+      selected,
+      cost: 0,
+      explanations: [{ step: 'shipping', label: 'Shipping', amount: 0, detail: "We don't ship to this destination yet" }]
+    };
+  }
+
+  const cost = freeWith.length > 0 ? 0 : selected.cost;
+  let detail = selected.etaLabel;
+  if (freeWith.length > 0) {
+    detail = `Free with ${freeWith.join(', ')}`;
+  } else if (selected.cost === 0 && selected.freeThreshold !== undefined) {
+    detail = `Free on orders over ${formatPrice(selected.freeThreshold, context.currency)}`;
+  }
+
+  return { options, selected, cost, explanations: [{ step: 'shipping', label: selected.name, amount: cost, detail }] };
+}
+
+function applyTax(
+  lines: PricingLine[],
+  pricedLines: PricedLine[],
+  destination: Destination
+): { region: string; inclusive: boolean; lines: TaxLine[]; amount: number } {
+  const region = findTaxRegion(destination);
+  const taxLines = calculateTaxLines(
+    lines.map((line, index) => ({ category: line.category, amount: pricedLines[index].net })),
+    region
+  );
+
+  return { region: region.name, inclusive: region.pricesIncludeTax, lines: taxLines, amount: sumTaxLines(taxLines) };
+}
+
+// ============ EXPLANATIONS ============
+
+function explainDiscounts(discounts: Discount[]): PricingExplanation[] {
+  return discounts.map(discount => ({
+    step: 'discounts',
+    label: discount.code,
+    amount: discount.active ? toMajor(negate(toMoney(discount.amount))) : 0,
+    detail: discount.active ? discount.description : discount.message
+  }));
+}
+
+function explainTax(taxLines: TaxLine[], currency?: CurrencyCode): PricingExplanation[] {
+  return taxLines.map(line => ({
+    step: 'tax',
+    label: line.label,
+    amount: line.inclusive ? 0 : line.amount,
+    detail: line.inclusive
+      ? `${formatPrice(line.amount, currency)} included in prices`
+      : `On ${formatPrice(line.taxableAmount, currency)}`
+  }));
+}
+
+function negate(amount: Money): Money {
+  return subtractMoney(ZERO, amount);
+}
@@ -0,0 +1,37 @@
+import { Product } from '../core/model/product';
+import { getProductImages, getRatingStars, getRelatedProducts, parseProductId } from './product-details';
+
+describe('product-details', () => {
+  const product = (id: number, category: string, rate?: number): Product => ({
+    id,
+    title: `Product ${id}`,
+    price: 10,
+    description: '',
+    category,
+    image: `${id}.jpg`,
+    rating: rate === undefined ? undefined : { rate, count: 10 }
+  });
+
+  it('shows the main image first without repeating it', () => {
+    expect(getProductImages({ image: 'a.jpg', images: ['b.jpg', 'a.jpg'] })).toEqual(['a.jpg', 'b.jpg']);
+  });
+
+  it('rounds ratings to the nearest half star', () => {
+    expect(getRatingStars({ rate: 3.7, count: 1 })).toEqual(['full', 'full', 'full', 'half', 'empty']);
+    expect(getRatingStars()).toEqual(['empty', 'empty', 'empty', 'empty', 'empty']);
+  });
+
+  it('suggests the best rated products of the same category', () => {
+    const viewed = product(1, 'jewelery', 4);
+    const catalog = [viewed, product(2, 'Jewelery', 3.1), product(3, 'electronics', 5), product(4, 'jewelery', 4.6)];
+
+    expect(getRelatedProducts(viewed, catalog).map(p => p.id)).toEqual([4, 2]);
+  });
+
+  it('only accepts positive whole ids', () => {
+    expect(parseProductId('12')).toBe(12);
+    expect(parseProductId('0')).toBeNull();
+    expect(parseProductId('12abc')).toBeNull();
+    expect(parseProductId(null)).toBeNull();
+  });
+});
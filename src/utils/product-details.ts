@@ -0,0 +1,60 @@
+/**
+ * Product Details Helpers
+ * Pure functions behind the product details page: gallery images,
+ * star ratings and related products
+ */
+
+import { Product, ProductRating } from '../core/model/product';
+
+export type RatingStar = 'full' | 'half' | 'empty';
+
+/**
+ * Images to show in a product's gallery
+ * @param product - Product object
+ * @returns The main image followed by the extra ones, without duplicates
+ */
+export function getProductImages(product: Pick<Product, 'image' | 'images'>): string[] {
+  return Array.from(new Set([product.image, ...(product.images ?? [])].filter(Boolean)));
+}
+
+/**
+ * Five stars for a rating, rounded to the nearest half star
+ * @param rating - Product rating (none shows five empty stars)
+ * @returns One entry per star
+ */
+export function getRatingStars(rating?: ProductRating): RatingStar[] {
+  const halves = Math.round(Math.min(5, Math.max(0, rating?.rate ?? 0)) * 2);
+  return [1, 2, 3, 4, 5].map(star => {
+    if (halves >= star * 2) return 'full';
+    if (halves === star * 2 - 1) return 'half';
+    return 'empty';
+  });
+}
+
+/**
+ * Other products from the same category
+ * Best rated first, so the strongest suggestions lead
+ * @param product - Product being viewed
+ * @param catalog - Products to pick from
+ * @param limit - Most products to return (default: 4)
+ * @returns Related products, never including the product itself
+ */
+export function getRelatedProducts(product: Product, catalog: Product[], limit: number = 4): Product[] {
+  const category = product.category.toLowerCase();
+
+  return catalog
+    .filter(p => p.id !== product.id && p.category.toLowerCase() === category)
+    .sort((a, b) => (b.rating?.rate ?? 0) - (a.rating?.rate ?? 0))
+    .slice(0, limit);
+}
+
+/**
+ * Read a product id from a route parameter
+ * @param param - Raw parameter (e.g. "12")
+ * @returns The id, or null when it isn't a positive whole number
+ */
+export function parseProductId(param: string | null): number | null {
+  if (!param || !/^\d+$/.test(param)) return null;
+  const id = Number(param);
+  return id > 0 ? id : null;
+}
@@ -0,0 +1,45 @@
+/**
+ * Product Option Helpers
+ * Resolve the variant options (size, colour...) offered for a product
+ */
+
+import { Product, ProductOption, SelectedOptions } from '../core/model/product';
+
+/**
+ * Options offered by category when the product doesn't define its own
+ * Keys are the catalog category names
+ */
+const CATEGORY_OPTIONS: Record<string, ProductOption[]> = {
+  "men's clothing": [
+    { name: 'Size', values: ['S', 'M', 'L', 'XL', 'XXL'] },
+    { name: 'Colour', values: ['Black', 'White', 'Navy', 'Grey'] }
+  ],
+  "women's clothing": [
+    { name: 'Size', values: ['XS', 'S', 'M', 'L', 'XL'] },
+    { name: 'Colour', values: ['Black', 'White', 'Red', 'Blue'] }
+  ]
+};
+
+/**
+ * Get the variant options for a product
+ * @param product - Product object
+ * @returns The product's own options, else its category defaults, else none
+ */
+export function getProductOptions(product: Product): ProductOption[] {
+  if (product.options?.length) {
+    return product.options;
+  }
+  return CATEGORY_OPTIONS[product.category?.toLowerCase()] ?? [];
+}
+
+/**
+ * Build the initial selection (first value of every option)
+ * @param options - Options offered for a product
+ * @returns Selected options map
+ */
+export function getDefaultSelection(options: ProductOption[]): SelectedOptions {
+  return options.reduce((selection, option) => {
+    selection[option.name] = option.values[0];
+    return selection;
+  }, {} as SelectedOptions);
+}
@@ -0,0 +1,56 @@
+import { Product } from '../core/model/product';
+import { getProductFacets, parseProductQuery, queryProducts, toQueryParams } from './product-query';
+
+describe('product-query', () => {
+  const product = (id: number, price: number, category = 'electronics', title = `Product ${id}`): Product => ({
+    id,
+    title,
+    price,
+    description: '',
+    category,
+    image: ''
+  });
+  const catalog = [product(1, 30), product(2, 10, 'jewelery', 'Ring'), product(3, 20), product(4, 50)];
+
+  it('reads defaults and clamps invalid parameters', () => {
+    expect(parseProductQuery({})).toEqual(jasmine.objectContaining({ page: 1, limit: 8, sort: 'featured' }));
+    expect(parseProductQuery({ page: '-2', limit: '500', sort: 'cheapest', minPrice: 'abc' }))
+      .toEqual(jasmine.objectContaining({ page: 1, limit: 100, sort: 'featured', minPrice: undefined }));
+  });
+
+  it('round-trips a query through URL parameters', () => {
+    const query = parseProductQuery({ page: '2', sort: 'price_desc', category: 'jewelery', maxPrice: '40', minRating: '4', inStock: 'false' });
+    expect(parseProductQuery(toQueryParams(query))).toEqual(query);
+  });
+
+  it('filters and sorts before paging, and counts every match', () => {
+    const page = queryProducts(catalog, parseProductQuery({ page: '2', limit: '2', sort: 'price_asc', category: 'electronics' }));
+
+    expect(page.data.map(p => p.id)).toEqual([4]);
+    expect(page.total).toBe(3);
+  });
+
+  it('matches text in the title', () => {
+    expect(queryProducts(catalog, parseProductQuery({ q: 'ring' })).data.map(p => p.id)).toEqual([2]);
+  });
+
+  it('counts each facet with the other filters applied but not its own', () => {
+    const rated = [
+      { ...product(1, 30), rating: { rate: 4.5, count: 10 } },
+      { ...product(2, 10, 'jewelery'), rating: { rate: 3.2, count: 4 }, stock: 0 },
+      { ...product(3, 20), rating: { rate: 2.1, count: 7 } }
+    ];
+    const facets = getProductFacets(rated, parseProductQuery({ category: 'electronics', maxPrice: '25' }));
+
+    expect(facets.categories).toEqual([{ value: 'electronics', count: 1 }, { value: 'jewelery', count: 1 }]);
+    expect(facets.prices.map(option => option.count)).toEqual([1, 1, 0, 0, 0]);
+    expect(facets.ratings.map(option => option.count)).toEqual([0, 0, 1, 1]);
+    expect(facets.availability).toEqual([{ value: true, count: 1 }, { value: false, count: 0 }]);
+  });
+
+  it('treats the maximum price as exclusive and sorts newest first', () => {
+    const page = queryProducts(catalog, parseProductQuery({ minPrice: '10', maxPrice: '30', sort: 'newest' }));
+
+    expect(page.data.map(p => p.id)).toEqual([3, 2]);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Product Query Helpers
+ * Pure functions that filter, sort, page and count a product list. The
+ * products API and CatalogService both page through them, so a listing
+ * looks the same whichever backend serves it.
+ */
+
+import { FacetOption, PriceRange, ProductFacets, ProductQuery, ProductResults, ProductSort } from '../core/model/catalog';
+import { Product } from '../core/model/product';
+import { isBundle } from './bundles';
+import { isInStock } from './quantity-rules';
+
+export const DEFAULT_PAGE_SIZE = 8;
+export const MAX_PAGE_SIZE = 100;
+
+export const PRODUCT_SORTS: { value: ProductSort; label: string }[] = [
+  { value: 'featured', label: 'Featured' },
+  { value: 'price_asc', label: 'Price: low to high' },
+  { value: 'price_desc', label: 'Price: high to low' },
+  { value: 'rating', label: 'Best rated' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'title', label: 'Name' }
+];
+
+/**
+ * Price buckets offered as a facet, in base currency
+ */
+export const PRICE_RANGES: PriceRange[] = [
+  { max: 25 },
+  { min: 25, max: 50 },
+  { min: 50, max: 100 },
+  { min: 100, max: 200 },
+  { min: 200 }
+];
+
+/**
+ * Minimum ratings offered as a facet ("4 stars & up"...)
+ */
+export const RATING_STEPS = [4, 3, 2, 1];
+
+/**
+ * Read a query from URL parameters, ignoring anything invalid
+ * @param params - Query string values (e.g. Express req.query)
+ * @returns A complete query (page 1, DEFAULT_PAGE_SIZE, featured by default)
+ */
+export function parseProductQuery(params: Record<string, unknown>): ProductQuery {
+  const text = (name: string) => {
+    const value = params[name];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  };
+  const number = (name: string) => {
+    const value = text(name);
+    return value !== undefined && Number.isFinite(Number(value)) ? Number(value) : undefined;
+  };
+
+  const sort = text('sort');
+  const kind = text('kind');
+  const inStock = text('inStock');
+  const minRating = number('minRating');
+
+  return {
+    page: Math.max(1, Math.floor(number('page') ?? 1)),
+    limit: Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(number('limit') ?? DEFAULT_PAGE_SIZE))),
+    sort: PRODUCT_SORTS.some(s => s.value === sort) ? sort as ProductSort : 'featured',
+    q: text('q'),
+    category: text('category'),
+    kind: kind === 'product' || kind === 'bundle' ? kind : undefined,
+    minPrice: number('minPrice'),
+    maxPrice: number('maxPrice'),
+    minRating: minRating === undefined ? undefined : Math.min(5, Math.max(0, minRating)),
+    inStock: inStock === 'true' ? true : inStock === 'false' ? false : undefined
+  };
+}
+
+/**
+ * URL parameters for a query, leaving out defaults and empty filters
+ * @param query - Query to encode
+ * @returns Parameters parseProductQuery reads back to the same query
+ */
+export function toQueryParams(query: Partial<ProductQuery>): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (query.page !== undefined && query.page !== 1) params['page'] = String(query.page);
+  if (query.limit !== undefined && query.limit !== DEFAULT_PAGE_SIZE) params['limit'] = String(query.limit);
+  if (query.sort && query.sort !== 'featured') params['sort'] = query.sort;
+  if (query.q) params['q'] = query.q;
+  if (query.category) params['category'] = query.category;
+  if (query.kind) params['kind'] = query.kind;
+  if (query.minPrice !== undefined) params['minPrice'] = String(query.minPrice);
+  if (query.maxPrice !== undefined) params['maxPrice'] = String(query.maxPrice);
+  if (query.minRating !== undefined) params['minRating'] = String(query.minRating);
+  if (query.inStock !== undefined) params['inStock'] = String(query.inStock);
+  return params;
+}
+
+/**
+ * Filter, sort and page products
+ * @param products - Whole catalog
+ * @param query - Filters, sort order and page
+ * @returns The requested page, the total number of matches and the facets
+ */
+export function queryProducts(products: Product[], query: ProductQuery): ProductResults {
+  const matches = sortProducts(products.filter(product => matchesQuery(product, query)), query.sort);
+  const start = (query.page - 1) * query.limit;
+
+  return {
+    data: matches.slice(start, start + query.limit),
+    page: query.page,
+    limit: query.limit,
+    total: matches.length,
+    facets: getProductFacets(products, query)
+  };
+}
+
+/**
+ * Count the products behind every facet value
+ * Each facet ignores its own filter, so its other values keep their counts
+ * and picking one swaps the filter rather than narrowing to nothing.
+ * @param products - Whole catalog
+ * @param query - Current filters
+ * @returns Counts per category, price range, minimum rating and availability
+ */
+export function getProductFacets(products: Product[], query: ProductQuery): ProductFacets {
+  const without = (...keys: (keyof ProductQuery)[]) => {
+    const rest = { ...query };
+    keys.forEach(key => delete rest[key]);
+    return products.filter(product => matchesQuery(product, rest));
+  };
+  const count = <T>(pool: Product[], values: T[], matches: (product: Product, value: T) => boolean): FacetOption<T>[] =>
+    values.map(value => ({ value, count: pool.filter(product => matches(product, value)).length }));
+
+  const byCategory = without('category');
+  const categories = [...new Set(products.map(product => product.category))].sort();
+
+  return {
+    categories: count(byCategory, categories, (product, category) => product.category === category),
+    prices: count(without('minPrice', 'maxPrice'), PRICE_RANGES, (product, range) => isInPriceRange(product.price, range)),
+    ratings: count(without('minRating'), RATING_STEPS, (product, rating) => (product.rating?.rate ?? 0) >= rating),
+    availability: count(without('inStock'), [true, false], (product, inStock) => isInStock(product) === inStock)
+  };
+}
+
+/**
+ * Check a product against the query's filters
+ */
+export function matchesQuery(product: Product, query: ProductQuery): boolean {
+  const text = query.q?.toLowerCase();
+
+  return (
+    (!text || product.title.toLowerCase().includes(text) || product.description.toLowerCase().includes(text)) &&
+    (!query.category || product.category.toLowerCase() === query.category.toLowerCase()) &&
+    (!query.kind || (query.kind === 'bundle') === isBundle(product)) &&
+    isInPriceRange(product.price, { min: query.minPrice, max: query.maxPrice }) &&
+    (query.minRating === undefined || (product.rating?.rate ?? 0) >= query.minRating) &&
+    (query.inStock === undefined || isInStock(product) === query.inStock)
+  );
+}
+
+/**
+ * Check a price against a range (min inclusive, max exclusive)
+ */
+export function isInPriceRange(price: number, range: PriceRange): boolean {
+  return (range.min === undefined || price >= range.min) && (range.max === undefined || price < range.max);
+}
+
+/**
+ * Sort products without changing the original list
+ * Ties keep their catalog order
+ */
+export function sortProducts(products: Product[], sort: ProductSort): Product[] {
+  const compare: Record<ProductSort, (a: Product, b: Product) => number> = {
+    featured: () => 0,
+    price_asc: (a, b) => a.price - b.price,
+    price_desc: (a, b) => b.price - a.price,
+    rating: (a, b) => (b.rating?.rate ?? 0) - (a.rating?.rate ?? 0),
+    newest: (a, b) => b.id - a.id,
+    title: (a, b) => a.title.localeCompare(b.title)
+  };
+
+  return [...products].sort(compare[sort]);
+}
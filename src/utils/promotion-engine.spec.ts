@@ -0,0 +1,76 @@
+import { Promotion } from '../core/model/promotion';
+import { calculatePromotionAmount, evaluatePromotions, PromotionLine, validatePromotion } from './promotion-engine';
+import { formatPrice } from './cart-helpers';
+
+describe('promotion-engine', () => {
+  const shirt: PromotionLine = { key: '1', id: 1, category: "men's clothing", price: 20, quantity: 2 };
+  const ring: PromotionLine = { key: '2', id: 2, category: 'jewelery', price: 100, quantity: 1 };
+
+  const promo = (overrides: Partial<Promotion>): Promotion => ({
+    id: 'p',
+    code: 'TEST',
+    description: 'Test',
+    rule: { type: 'percentage', value: 10 },
+    stacking: 'stackable',
+    ...overrides
+  });
+
+  it('limits scoped discounts to matching lines', () => {
+    const jewellery = promo({ scope: { categories: ['jewelery'] } });
+    expect(calculatePromotionAmount(jewellery, [shirt, ring])).toBe(10);
+  });
+
+  it('gives the cheapest unit free for buy 2 get 1', () => {
+    const b2g1 = promo({ rule: { type: 'buy_x_get_y', buyQuantity: 2, getQuantity: 1 } });
+    expect(calculatePromotionAmount(b2g1, [shirt, ring])).toBe(20);
+  });
+
+  it('picks the highest tier reached', () => {
+    const tiered = promo({
+      rule: {
+        type: 'tiered',
+        tiers: [
+          { minSubtotal: 50, type: 'fixed', value: 5 },
+          { minSubtotal: 120, type: 'fixed', value: 15 }
+        ]
+      }
+    });
+    expect(calculatePromotionAmount(tiered, [shirt, ring])).toBe(15);
+  });
+
+  it('rejects expired and not yet started codes', () => {
+    const now = new Date('2025-01-10');
+    const expired = promo({ expiresAt: '2025-01-01' });
+    const future = promo({ startsAt: '2025-02-01' });
+
+    expect(validatePromotion(expired, [ring], [], 0, now)?.reason).toBe('expired');
+    expect(validatePromotion(future, [ring], [], 0, now)?.reason).toBe('not_started');
+  });
+
+  it('enforces stacking rules and usage limits', () => {
+    const exclusive = promo({ id: 'x', code: 'ONLY', stacking: 'exclusive' });
+    const once = promo({ usageLimitPerUser: 1 });
+
+    expect(validatePromotion(exclusive, [ring], [promo({})])?.reason).toBe('not_stackable');
+    expect(validatePromotion(promo({ id: 'y' }), [ring], [exclusive])?.reason).toBe('not_stackable');
+    expect(validatePromotion(once, [ring], [], 1)?.reason).toBe('usage_limit');
+    expect(validatePromotion(once, [ring], [], null)?.reason).toBe('sign_in_required');
+  });
+
+  it('keeps promotions the cart no longer qualifies for inactive', () => {
+    const minimum = promo({ rule: { type: 'fixed', value: 20 }, minSubtotal: 200 });
+    const [outcome] = evaluatePromotions([minimum], [ring]);
+
+    expect(outcome.active).toBeFalse();
+    expect(outcome.amount).toBe(0);
+    expect(outcome.message).toBe('TEST needs a subtotal of at least $200.00 on eligible items');
+  });
+
+  it('shows minimum subtotals in the shopper currency', () => {
+    const minimum = promo({ minSubtotal: 200 });
+    const [outcome] = evaluatePromotions([minimum], [ring], new Date(), 'EUR');
+
+    expect(outcome.message).toContain(formatPrice(200, 'EUR'));
+    expect(validatePromotion(minimum, [ring], [], 0, new Date(), 'EUR')?.message).toBe(outcome.message);
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Promotion Engine
+ * Pure functions that decide whether a promotion applies to a cart
+ * and how much it is worth. No Angular dependencies, so the same rules
+ * can run anywhere the cart is priced.
+ */
+
+import { Promotion, PromotionRejection, PromotionRejectionReason } from '../core/model/promotion';
+import { Money, ZERO, addMoney, minMoney, multiplyMoney, subtractMoney, toMajor, toMoney } from './money';
+import { formatPrice } from './cart-helpers';
+
+/**
+ * The parts of a cart line promotions look at
+ */
+export interface PromotionLine {
+  key: string;
+  id: number;
+  category?: string;
+  price: number;
+  quantity: number;
+}
+
+/**
+ * Result of running one applied promotion against the cart
+ */
+export interface PromotionOutcome {
+  promotion: Promotion;
+  amount: number;        // Discount in dollars (0 when inactive)
+  freeShipping: boolean;
+  active: boolean;       // False when the cart no longer qualifies
+  message?: string;      // Why the promotion is inactive
+}
+
+/**
+ * Check whether a code can be added to the cart
+ * @param promotion - Promotion to apply
+ * @param lines - Current cart lines
+ * @param applied - Promotions already applied to the cart
+ * @param timesUsed - Orders this user already placed with the code (null for guests, who can't use limited codes)
+ * @param now - Current time
+ * @param currency - Currency to show amounts in (default: USD)
+ * @returns The rejection, or null when the code can be applied
+ */
+export function validatePromotion(
+  promotion: Promotion,
+  lines: PromotionLine[],
+  applied: Promotion[],
+  timesUsed: number | null = 0,
+  now: Date = new Date(),
+  currency: string = 'USD'
+): PromotionRejection | null {
+  if (applied.some(p => p.id === promotion.id)) {
+    return rejection('already_applied', promotion);
+  }
+
+  if (applied.length > 0 && (promotion.stacking === 'exclusive' || applied.some(p => p.stacking === 'exclusive'))) {
+    return rejection('not_stackable', promotion);
+  }
+
+  if (promotion.usageLimitPerUser !== undefined) {
+    if (timesUsed === null) return rejection('sign_in_required', promotion);
+    if (timesUsed >= promotion.usageLimitPerUser) return rejection('usage_limit', promotion);
+  }
+
+  return checkCartEligibility(promotion, lines, now, currency);
+}
+
+/**
+ * Run every applied promotion against the cart
+ * Promotions the cart no longer qualifies for stay applied but inactive,
+ * so they come back when the cart changes. The combined discount never
+ * exceeds the cart subtotal.
+ * @param promotions - Applied promotions, in the order they were applied
+ * @param lines - Current cart lines
+ * @param now - Current time
+ * @param currency - Currency to show amounts in (default: USD)
+ * @returns One outcome per promotion
+ */
+export function evaluatePromotions(
+  promotions: Promotion[],
+  lines: PromotionLine[],
+  now: Date = new Date(),
+  currency: string = 'USD'
+): PromotionOutcome[] {
+  let remaining = lineTotalOf(lines);
+
+  return promotions.map(promotion => {
+    const problem = checkCartEligibility(promotion, lines, now, currency);
+    if (problem) {
+      return { promotion, amount: 0, freeShipping: false, active: false, message: problem.message };
+    }
+
+    const amount = minMoney(promotionAmountOf(promotion, lines), remaining);
+    remaining = subtractMoney(remaining, amount);
+
+    return {
+      promotion,
+      amount: toMajor(amount),
+      freeShipping: promotion.rule.type === 'free_shipping',
+      active: true
+    };
+  });
+}
+
+/**
+ * Calculate the discount a promotion gives on the in-scope lines
+ * @param promotion - Promotion to calculate
+ * @param lines - Cart lines
+ * @returns Discount amount in dollars
+ */
+export function calculatePromotionAmount(promotion: Promotion, lines: PromotionLine[]): number {
+  return toMajor(promotionAmountOf(promotion, lines));
+}
+
+/**
+ * Lines a promotion applies to
+ * @param promotion - Promotion with optional scope
+ * @param lines - Cart lines
+ * @returns Lines matching the product or category scope
+ */
+export function getScopedLines(promotion: Promotion, lines: PromotionLine[]): PromotionLine[] {
+  const productIds = promotion.scope?.productIds ?? [];
+  const categories = (promotion.scope?.categories ?? []).map(c => c.toLowerCase());
+
+  if (productIds.length === 0 && categories.length === 0) {
+    return lines;
+  }
+
+  return lines.filter(line =>
+    productIds.includes(line.id) ||
+    (line.category !== undefined && categories.includes(line.category.toLowerCase()))
+  );
+}
+
+/**
+ * Build a rejection with a shopper-facing message
+ * @param reason - Rejection reason
+ * @param promotion - Promotion concerned (not available for unknown codes)
+ * @param currency - Currency to show amounts in (default: USD)
+ * @returns Rejection object
+ */
+export function rejection(reason: PromotionRejectionReason, promotion?: Promotion, currency: string = 'USD'): PromotionRejection {
+  const code = promotion?.code ?? 'This code';
+  const messages: Record<PromotionRejectionReason, string> = {
+    invalid_format: 'Discount codes are 3-20 letters or numbers',
+    not_found: 'This discount code does not exist',
+    not_started: `${code} is not active yet${promotion?.startsAt ? ` (starts ${formatDate(promotion.startsAt)})` : ''}`,
+    expired: `${code} expired${promotion?.expiresAt ? ` on ${formatDate(promotion.expiresAt)}` : ''}`,
+    already_applied: `${code} is already applied`,
+    not_stackable: promotion?.stacking === 'exclusive'
+      ? `${code} can't be combined with other codes - remove them first`
+      : `${code} can't be combined with the code already applied`,
+    usage_limit: `You have already used ${code} the maximum number of times`,
+    sign_in_required: `Please sign in to use ${code}`,
+    not_applicable: `${code} doesn't apply to any item in your cart`,
+    min_subtotal: `${code} needs a subtotal of at least ${formatPrice(promotion?.minSubtotal ?? 0, currency)} on eligible items`
+  };
+
+  return { reason, message: messages[reason] };
+}
+
+/**
+ * Checks that depend on the cart contents and the date
+ */
+function checkCartEligibility(promotion: Promotion, lines: PromotionLine[], now: Date, currency: string): PromotionRejection | null {
+  if (promotion.startsAt && now < new Date(promotion.startsAt)) {
+    return rejection('not_started', promotion);
+  }
+
+  if (promotion.expiresAt && now >= new Date(promotion.expiresAt)) {
+    return rejection('expired', promotion);
+  }
+
+  const scoped = getScopedLines(promotion, lines);
+  if (scoped.length === 0) {
+    return rejection('not_applicable', promotion);
+  }
+
+  if (promotion.minSubtotal && toMajor(lineTotalOf(scoped)) < promotion.minSubtotal) {
+    return rejection('min_subtotal', promotion, currency);
+  }
+
+  if (promotion.rule.type === 'buy_x_get_y' && promotionAmountOf(promotion, lines) === 0) {
+    const needed = promotion.rule.buyQuantity + promotion.rule.getQuantity;
+    return { reason: 'not_applicable', message: `${promotion.code} needs ${needed} eligible items in your cart` };
+  }
+
+  return null;
+}
+
+/**
+ * Discount a promotion gives on the in-scope lines, in cents
+ */
+function promotionAmountOf(promotion: Promotion, lines: PromotionLine[]): Money {
+  const scoped = getScopedLines(promotion, lines);
+  const scopedSubtotal = lineTotalOf(scoped);
+  const rule = promotion.rule;
+
+  let amount = ZERO;
+  switch (rule.type) {
+    case 'percentage': {
+      const raw = multiplyMoney(scopedSubtotal, rule.value / 100);
+      amount = rule.maxDiscount ? minMoney(raw, toMoney(rule.maxDiscount)) : raw;
+      break;
+    }
+    case 'fixed':
+      amount = toMoney(rule.value);
+      break;
+    case 'buy_x_get_y':
+      amount = calculateBuyXGetY(scoped, rule.buyQuantity, rule.getQuantity, rule.discountPercent ?? 100);
+      break;
+    case 'tiered': {
+      const tier = [...rule.tiers]
+        .sort((a, b) => b.minSubtotal - a.minSubtotal)
+        .find(t => toMajor(scopedSubtotal) >= t.minSubtotal);
+      if (tier) {
+        amount = tier.type === 'percentage' ? multiplyMoney(scopedSubtotal, tier.value / 100) : toMoney(tier.value);
+      }
+      break;
+    }
+    case 'free_shipping':
+      amount = ZERO;
+      break;
+  }
+
+  return minMoney(amount, scopedSubtotal);
+}
+
+/**
+ * For every (buy + get) eligible units, discount the cheapest `get` units
+ */
+function calculateBuyXGetY(lines: PromotionLine[], buy: number, get: number, percent: number): Money {
+  const unitPrices = lines
+    .flatMap(line => Array<Money>(line.quantity).fill(toMoney(line.price)))
+    .sort((a, b) => a - b);
+
+  const discountedUnits = Math.floor(unitPrices.length / (buy + get)) * get;
+  return addMoney(...unitPrices
+    .slice(0, discountedUnits)
+    .map(price => multiplyMoney(price, percent / 100)));
+}
+
+function lineTotalOf(lines: PromotionLine[]): Money {
+  return addMoney(...lines.map(line => multiplyMoney(toMoney(line.price), line.quantity)));
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+}
@@ -0,0 +1,51 @@
+import { BUNDLES } from '../core/data/bundles';
+import { canIncreaseQuantity, getProductInventory, getQuantityRules, getUnitsHeld, normalizeQuantity } from './quantity-rules';
+
+describe('quantity-rules', () => {
+  it('caps at the lowest of stock and max per order', () => {
+    expect(getQuantityRules({ stock: 10, maxPerOrder: 3 }).max).toBe(3);
+    expect(getQuantityRules({ stock: 2, maxPerOrder: 3 }).max).toBe(2);
+    expect(getQuantityRules({}).max).toBe(999);
+  });
+
+  it('snaps quantities to the minimum and step', () => {
+    const packs = getQuantityRules({ minQuantity: 2, quantityStep: 2, stock: 7 });
+    expect(normalizeQuantity(1, packs)).toBe(2);
+    expect(normalizeQuantity(5, packs)).toBe(4);
+    expect(normalizeQuantity(20, packs)).toBe(6);
+  });
+
+  it('returns 0 when the minimum is out of stock', () => {
+    expect(normalizeQuantity(1, getQuantityRules({ stock: 1, minQuantity: 2 }))).toBe(0);
+    expect(normalizeQuantity(1, getQuantityRules({ stock: 0 }))).toBe(0);
+  });
+
+  it('stops increasing at the maximum', () => {
+    const rules = getQuantityRules({ stock: 3 });
+    expect(canIncreaseQuantity(2, rules)).toBeTrue();
+    expect(canIncreaseQuantity(3, rules)).toBeFalse();
+  });
+
+  describe('shared stock', () => {
+    const [storageKit, backupBundle] = BUNDLES;
+    const drive = { id: 9 }; // WD 2TB: 25 in stock, 5 per order
+
+    it('counts bundle components towards the products they contain', () => {
+      const held = getUnitsHeld([{ ...backupBundle, quantity: 1 }, { ...drive, quantity: 1 }]);
+      expect(held(9)).toBe(3);
+      expect(held(12)).toBe(1);
+      expect(held(10)).toBe(0);
+    });
+
+    it('leaves a standalone line what the bundles in the cart do not take', () => {
+      const held = getUnitsHeld([{ ...storageKit, quantity: 2 }]);
+      expect(getQuantityRules(getProductInventory(drive, held)).max).toBe(3);
+    });
+
+    it('leaves a bundle what the standalone lines do not take', () => {
+      const held = getUnitsHeld([{ ...drive, quantity: 4 }]);
+      expect(getQuantityRules(getProductInventory(storageKit, held)).max).toBe(1);
+      expect(normalizeQuantity(1, getQuantityRules(getProductInventory(backupBundle, held)))).toBe(0);
+    });
+  });
+});
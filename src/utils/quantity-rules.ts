@@ -0,0 +1,130 @@
+/**
+ * Quantity Rule Helpers
+ * Pure functions that apply stock, max-per-order and min/step
+ * rules to cart line quantities
+ */
+
+import { BundleComponent, Product, ProductInventory } from '../core/model/product';
+import { INVENTORY, LOW_STOCK_THRESHOLD, MAX_QUANTITY } from '../core/data/inventory';
+import { getBundleInventory, isBundle } from './bundles';
+
+/**
+ * Resolved quantity limits for one line
+ */
+export interface QuantityRules {
+  min: number;
+  max: number;   // Lowest of stock, max-per-order and MAX_QUANTITY
+  step: number;
+  stock?: number;
+}
+
+/**
+ * Units of a product already taken by other cart lines
+ */
+export type UnitsHeld = (productId: number) => number;
+
+const NOTHING_HELD: UnitsHeld = () => 0;
+
+/**
+ * Count the units of each product some cart lines take
+ * A bundle line takes its components as well, so a product's stock and
+ * max-per-order are shared by every line containing it.
+ * @param lines - The other lines of the cart
+ * @returns Units held by those lines, per product id
+ */
+export function getUnitsHeld(lines: { id: number; quantity: number; bundle?: BundleComponent[] }[]): UnitsHeld {
+  const held = new Map<number, number>();
+  const hold = (productId: number, units: number) => held.set(productId, (held.get(productId) ?? 0) + units);
+
+  lines.forEach(line => {
+    hold(line.id, line.quantity);
+    line.bundle?.forEach(component => hold(component.productId, component.quantity * line.quantity));
+  });
+
+  return productId => held.get(productId) ?? 0;
+}
+
+/**
+ * Get the inventory fields of a product
+ * @param product - Product object
+ * @param held - Units the rest of the cart takes, deducted from stock and max-per-order
+ * @returns The product's own fields, else the INVENTORY entry, else none
+ * (bundles are limited by their components instead)
+ */
+export function getProductInventory(
+  product: Pick<Product, 'id' | 'bundle'> & ProductInventory,
+  held: UnitsHeld = NOTHING_HELD
+): ProductInventory {
+  if (isBundle(product)) {
+    return getBundleInventory(product, productId => getProductInventory({ id: productId }, held));
+  }
+
+  const fallback = INVENTORY[product.id] ?? {};
+  return {
+    stock: remaining(product.stock ?? fallback.stock, held(product.id)),
+    maxPerOrder: remaining(product.maxPerOrder ?? fallback.maxPerOrder, held(product.id)),
+    minQuantity: product.minQuantity ?? fallback.minQuantity,
+    quantityStep: product.quantityStep ?? fallback.quantityStep
+  };
+}
+
+/**
+ * Resolve the quantity limits for a line
+ * @param inventory - Inventory fields of the line
+ * @returns Quantity rules
+ */
+export function getQuantityRules(inventory: ProductInventory): QuantityRules {
+  return {
+    min: Math.max(1, inventory.minQuantity ?? 1),
+    max: Math.min(MAX_QUANTITY, inventory.stock ?? Infinity, inventory.maxPerOrder ?? Infinity),
+    step: Math.max(1, inventory.quantityStep ?? 1),
+    stock: inventory.stock
+  };
+}
+
+/**
+ * Snap a requested quantity to the nearest allowed one
+ * Raised to the minimum, rounded down to a step and capped at the maximum
+ * @param quantity - Requested quantity
+ * @param rules - Quantity rules
+ * @returns Allowed quantity, or 0 when none can be bought
+ */
+export function normalizeQuantity(quantity: number, rules: QuantityRules): number {
+  if (rules.max < rules.min) return 0;
+
+  const capped = Math.min(Math.max(quantity, rules.min), rules.max);
+  return rules.min + Math.floor((capped - rules.min) / rules.step) * rules.step;
+}
+
+/**
+ * Whether another step can be added to a line
+ */
+export function canIncreaseQuantity(quantity: number, rules: QuantityRules): boolean {
+  return quantity + rules.step <= rules.max;
+}
+
+/**
+ * Whether a step can be taken off a line without removing it
+ */
+export function canDecreaseQuantity(quantity: number, rules: QuantityRules): boolean {
+  return quantity - rules.step >= rules.min;
+}
+
+/**
+ * Whether stock is low enough to warn about
+ */
+export function isLowStock(rules: QuantityRules): boolean {
+  return rules.stock !== undefined && rules.stock <= LOW_STOCK_THRESHOLD;
+}
+
+/**
+ * Whether at least the minimum quantity of a product can be bought
+ */
+export function isInStock(product: Product): boolean {
+  const rules = getQuantityRules(getProductInventory(product));
+  return normalizeQuantity(rules.min, rules) > 0;
+}
+
+function remaining(limit: number | undefined, held: number): number | undefined {
+  return limit === undefined ? undefined : Math.max(0, limit - held);
+}
@@ -0,0 +1,57 @@
+import { Product } from '../core/model/product';
+import { createSearchIndex, getSnippet, highlightText, searchProducts } from './search-index';
+
+describe('search-index', () => {
+  const product = (id: number, title: string, category: string, description = ''): Product => ({
+    id,
+    title,
+    price: 10,
+    description,
+    category,
+    image: ''
+  });
+  const index = createSearchIndex([
+    product(1, 'Fjallraven Backpack', "men's clothing", 'Fits 15 inch laptops'),
+    product(2, 'Slim Fit T-Shirt', "men's clothing", 'Great for a casual jacket outfit'),
+    product(3, 'Rain Jacket', "women's clothing", 'Lightweight and waterproof'),
+    product(4, 'Gold Ring', 'jewelery', 'Jacket not included')
+  ]);
+  const ids = (query: string) => searchProducts(index, query).map(result => result.product.id);
+
+  it('ranks title matches above category and description matches', () => {
+    expect(ids('jacket')).toEqual([3, 4, 2]); // Equal scores go by title
+    expect(ids('clothing')).toEqual([1, 3, 2]);
+  });
+
+  it('matches the start of a word and tolerates typos', () => {
+    expect(ids('back')).toEqual([1]);
+    expect(ids('jackte')).toEqual([3, 4, 2]);
+    expect(ids('waterprof')).toEqual([3]);
+    expect(ids('rimg')).toEqual([4]);
+    expect(ids('rng')).toEqual([]); // Too short for a typo
+  });
+
+  it('needs every word to match', () => {
+    expect(ids('rain jacket')).toEqual([3]);
+    expect(ids('gold backpack')).toEqual([]);
+  });
+
+  it('marks the matched words', () => {
+    const [result] = searchProducts(index, 'rain jack');
+
+    expect(highlightText(result.product.title, result.terms)).toEqual([
+      { text: 'Rain', match: true },
+      { text: ' ', match: false },
+      { text: 'Jacket', match: true }
+    ]);
+  });
+
+  it('cuts long text around the first match', () => {
+    const text = `${'word '.repeat(40)}jacket${' word'.repeat(40)}`;
+    const snippet = getSnippet(text, ['jacket'], 60);
+
+    expect(snippet).toContain('jacket');
+    expect(snippet.startsWith('…')).toBeTrue();
+    expect(snippet.endsWith('…')).toBeTrue();
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Search Index Helpers
+ * Pure functions that index products by the words in their title,
+ * category and description, and rank them against a typed query with
+ * prefix and typo-tolerant matching
+ */
+
+import { Product } from '../core/model/product';
+
+/**
+ * Fields searched, and how much a match in each counts
+ */
+const FIELD_WEIGHTS = { title: 3, category: 2, description: 1 } as const;
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+// How much a match is worth before its field weight
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.7;
+const FUZZY_MATCH = 0.4;
+
+/**
+ * Products by the words they contain
+ * Build once per catalog with createSearchIndex and reuse for every query.
+ */
+export interface SearchIndex {
+  products: Map<number, Product>;
+  terms: Map<string, Map<number, number>>; // word -> product id -> best field weight
+}
+
+/**
+ * A product matching a query
+ */
+export interface SearchResult {
+  product: Product;
+  score: number;
+  terms: string[]; // Indexed words the query matched, for highlighting
+}
+
+/**
+ * A piece of text, marked when it matched the query
+ */
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Split text into lower-case words
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Index products by the words in their searchable fields
+ * @param products - Products to index
+ * @returns Index for searchProducts
+ */
+export function createSearchIndex(products: Product[]): SearchIndex {
+  const index: SearchIndex = { products: new Map(), terms: new Map() };
+
+  for (const product of products) {
+    index.products.set(product.id, product);
+
+    for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+      for (const term of tokenize(product[field])) {
+        const postings = index.terms.get(term) ?? new Map<number, number>();
+        postings.set(product.id, Math.max(postings.get(product.id) ?? 0, FIELD_WEIGHTS[field]));
+        index.terms.set(term, postings);
+      }
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Find and rank products for a query
+ * Every query word has to match: exactly, as the start of a word, or
+ * (from four letters) within one typo - two from eight letters.
+ * Matches in the title outrank the category, which outranks the description.
+ * @param index - Index from createSearchIndex
+ * @param query - Text as typed
+ * @param limit - Most results to return
+ * @returns Results, best first
+ */
+export function searchProducts(index: SearchIndex, query: string, limit: number = Infinity): SearchResult[] {
+  const words = [...new Set(tokenize(query))];
+  if (!words.length) return [];
+
+  let scores: Map<number, { score: number; terms: Set<string> }> | null = null;
+
+  for (const word of words) {
+    const matches = new Map<number, { score: number; terms: Set<string> }>();
+
+    for (const [term, postings] of index.terms) {
+      const quality = matchQuality(word, term);
+      if (!quality) continue;
+
+      for (const [id, weight] of postings) {
+        const match = matches.get(id) ?? { score: 0, terms: new Set<string>() };
+        match.score = Math.max(match.score, quality * weight);
+        match.terms.add(term);
+        matches.set(id, match);
+      }
+    }
+
+    // Keep only products that matched every word so far
+    if (scores === null) {
+      scores = matches;
+    } else {
+      const previous: Map<number, { score: number; terms: Set<string> }> = scores;
+      scores = new Map();
+      for (const [id, match] of matches) {
+        const before = previous.get(id);
+        if (before) scores.set(id, { score: before.score + match.score, terms: new Set([...before.terms, ...match.terms]) });
+      }
+    }
+  }
+
+  return [...(scores ?? new Map()).entries()]
+    .map(([id, match]) => ({ product: index.products.get(id)!, score: match.score, terms: [...match.terms] }))
+    .sort((a, b) => b.score - a.score || a.product.title.localeCompare(b.product.title))
+    .slice(0, limit);
+}
+
+/**
+ * Split text into matched and unmatched pieces
+ * @param text - Text to show
+ * @param terms - Matched words (SearchResult.terms)
+ * @returns Segments that join back into the text
+ */
+export function highlightText(text: string, terms: string[]): HighlightSegment[] {
+  const matched = new Set(terms);
+  const segments: HighlightSegment[] = [];
+
+  for (const piece of text.split(/([\p{L}\p{N}]+)/u)) {
+    if (!piece) continue;
+    const match = matched.has(piece.toLowerCase());
+    const last = segments[segments.length - 1];
+
+    if (last && !last.match && !match) {
+      last.text += piece;
+    } else {
+      segments.push({ text: piece, match });
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * A short excerpt of text around its first matched word
+ * @param text - Full text (e.g. a description)
+ * @param terms - Matched words (SearchResult.terms)
+ * @param length - Roughly how many characters to keep
+ * @returns Excerpt with ellipses where text was cut
+ */
+export function getSnippet(text: string, terms: string[], length: number = 160): string {
+  if (text.length <= length) return text;
+
+  const matched = new Set(terms);
+  const word = /[\p{L}\p{N}]+/gu;
+  let first = 0;
+  for (let found = word.exec(text); found; found = word.exec(text)) {
+    if (matched.has(found[0].toLowerCase())) {
+      first = found.index;
+      break;
+    }
+  }
+
+  // Start a little before the match, at a word boundary
+  let start = Math.max(0, Math.min(first - 40, text.length - length));
+  if (start > 0) start = text.indexOf(' ', start) + 1;
+  const end = Math.min(text.length, start + length);
+
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * How well a query word matches an indexed word (0 for no match)
+ */
+function matchQuality(word: string, term: string): number {
+  if (term === word) return EXACT_MATCH;
+  if (term.startsWith(word)) return PREFIX_MATCH;
+
+  const typos = word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0;
+  if (!typos || Math.abs(term.length - word.length) > typos) return 0;
+  return editDistance(word, term, typos) <= typos ? FUZZY_MATCH : 0;
+}
+
+/**
+ * Edit distance counting a swap of neighbouring letters as one typo,
+ * giving up once it is over max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  let before: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], before[j - 2] + 1);
+      }
+    }
+    if (Math.min(...current) > max) return max + 1;
+    before = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
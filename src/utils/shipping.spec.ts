@@ -0,0 +1,39 @@
+import { estimateDeliveryDate, findShippingZone, getShippingQuotes, selectShippingQuote } from './shipping';
+
+describe('shipping', () => {
+  it('matches city zones before country zones', () => {
+    expect(findShippingZone({ country: 'EG', city: 'Giza' }).id).toBe('greater-cairo');
+    expect(findShippingZone({ country: 'EG', city: 'Aswan' }).id).toBe('egypt');
+    expect(findShippingZone({ country: 'US' }).id).toBe('international');
+  });
+
+  it('only offers store pickup where there is a store', () => {
+    const cairo = getShippingQuotes({ country: 'EG', city: 'Cairo' }, 50, 1).map(q => q.methodId);
+    const aswan = getShippingQuotes({ country: 'EG', city: 'Aswan' }, 50, 1).map(q => q.methodId);
+
+    expect(cairo).toContain('pickup');
+    expect(aswan).not.toContain('pickup');
+  });
+
+  it('charges per started kg and honours the method threshold', () => {
+    const [heavy] = getShippingQuotes({ country: 'EG', city: 'Cairo' }, 50, 2.5);
+    const [free] = getShippingQuotes({ country: 'EG', city: 'Cairo' }, 120, 2.5);
+
+    expect(heavy.cost).toBe(7);
+    expect(free.cost).toBe(0);
+  });
+
+  it('falls back to the first method when the selection is unavailable', () => {
+    const quotes = getShippingQuotes({ country: 'EG', city: 'Aswan' }, 50, 1);
+    expect(selectShippingQuote(quotes, 'pickup')?.methodId).toBe('standard');
+  });
+
+  it('counts delivery days in business days', () => {
+    const [standard] = getShippingQuotes({ country: 'EG', city: 'Cairo' }, 50, 1); // 2-3 business days
+    const thursday = new Date(2026, 9, 15, 12);
+
+    // Friday and Saturday are skipped: Sunday, Monday, Tuesday
+    expect(new Date(estimateDeliveryDate(standard, thursday)).getDate()).toBe(20);
+    expect(new Date(estimateDeliveryDate(standard, thursday, [])).getDate()).toBe(18);
+  });
+});
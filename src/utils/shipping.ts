@@ -0,0 +1,127 @@
+/**
+ * Shipping Helpers
+ * Pure functions that price the available shipping methods
+ * for a destination, cart subtotal and cart weight
+ */
+
+import { Destination } from '../core/model/destination';
+import { ShippingMethod, ShippingMethodId, ShippingQuote, ShippingZone } from '../core/model/shipping';
+import { DEFAULT_ITEM_WEIGHT, SHIPPING_METHODS, SHIPPING_ZONES, WEEKEND_DAYS } from '../core/data/shipping';
+import { ZERO, addMoney, multiplyMoney, toMajor, toMoney } from './money';
+
+/**
+ * Find the shipping zone for a destination
+ * @param destination - Shipping country and city
+ * @param zones - Zone table (default: SHIPPING_ZONES)
+ * @returns Matching zone (city zones win over country-wide ones)
+ */
+export function findShippingZone(destination: Destination, zones: ShippingZone[] = SHIPPING_ZONES): ShippingZone {
+  const country = destination.country.toUpperCase();
+  const city = destination.city?.trim().toLowerCase();
+
+  return (
+    zones.find(z => z.country === country && z.cities?.includes(city ?? '')) ??
+    zones.find(z => z.country === country && !z.cities) ??
+    zones.find(z => z.country === '*')!
+  );
+}
+
+/**
+ * Total weight of the cart in kg
+ * @param items - Lines with optional per-unit weight
+ * @returns Weight in kg
+ */
+export function calculateCartWeight(items: { weight?: number; quantity: number }[]): number {
+  return items.reduce((total, item) => total + (item.weight ?? DEFAULT_ITEM_WEIGHT) * item.quantity, 0);
+}
+
+/**
+ * Price every method offered at a destination
+ * @param destination - Shipping country and city
+ * @param subtotal - Cart subtotal (for free shipping thresholds)
+ * @param weightKg - Cart weight
+ * @param methods - Method table (default: SHIPPING_METHODS)
+ * @returns One quote per available method
+ */
+export function getShippingQuotes(
+  destination: Destination,
+  subtotal: number,
+  weightKg: number,
+  methods: ShippingMethod[] = SHIPPING_METHODS
+): ShippingQuote[] {
+  const zone = findShippingZone(destination);
+
+  return methods
+    .map(method => quoteShippingMethod(method, zone, subtotal, weightKg))
+    .filter((quote): quote is ShippingQuote => quote !== null);
+}
+
+/**
+ * Price one method for a zone
+ * @returns The quote, or null when the method isn't offered in the zone
+ */
+export function quoteShippingMethod(
+  method: ShippingMethod,
+  zone: ShippingZone,
+  subtotal: number,
+  weightKg: number
+): ShippingQuote | null {
+  const rate = method.rates.find(r => r.zoneId === zone.id);
+  if (!rate) return null;
+
+  const extraKg = Math.max(0, Math.ceil(weightKg) - 1);
+  const isFree = rate.freeThreshold !== undefined && subtotal >= rate.freeThreshold;
+  const cost = isFree ? ZERO : addMoney(toMoney(rate.baseRate), multiplyMoney(toMoney(rate.perKg), extraKg));
+
+  return {
+    methodId: method.id,
+    name: method.name,
+    description: method.description,
+    cost: toMajor(cost),
+    freeThreshold: rate.freeThreshold,
+    etaMinDays: rate.etaDays[0],
+    etaMaxDays: rate.etaDays[1],
+    etaLabel: formatEta(rate.etaDays[0], rate.etaDays[1], method.id)
+  };
+}
+
+/**
+ * Pick the selected quote, falling back to the first available method
+ * @param quotes - Available quotes
+ * @param methodId - Method the shopper selected
+ * @returns Selected quote, or null when nothing ships to the destination
+ */
+export function selectShippingQuote(quotes: ShippingQuote[], methodId: ShippingMethodId | null): ShippingQuote | null {
+  return quotes.find(q => q.methodId === methodId) ?? quotes[0] ?? null;
+}
+
+/**
+ * Latest delivery date for a quote
+ * ETAs are in business days, so weekend days are skipped.
+ * @param quote - Shipping quote
+ * @param from - Order date (default: now)
+ * @param weekendDays - Days of the week that don't count (default: WEEKEND_DAYS)
+ * @returns ISO date string
+ */
+export function estimateDeliveryDate(
+  quote: ShippingQuote,
+  from: Date = new Date(),
+  weekendDays: number[] = WEEKEND_DAYS
+): string {
+  const date = new Date(from);
+  let remaining = quote.etaMaxDays;
+
+  while (remaining > 0) {
+    date.setDate(date.getDate() + 1);
+    if (!weekendDays.includes(date.getDay())) remaining--;
+  }
+  return date.toISOString();
+}
+
+function formatEta(min: number, max: number, methodId: ShippingMethodId): string {
+  const verb = methodId === 'pickup' ? 'Ready' : 'Delivered';
+  if (max === 0) return `${verb} today`;
+  if (min === 0) return `${verb} within ${max} business day${max === 1 ? '' : 's'}`;
+  if (min === max) return `${verb} in ${max} business day${max === 1 ? '' : 's'}`;
+  return `${verb} in ${min}-${max} business days`;
+}
@@ -0,0 +1,67 @@
+import { createEnvelope, extractJsonObjects, readEnvelope } from './storage-envelope';
+import { cartItemsSchema, DISCOUNT_CODES_SCHEMA } from './storage-schemas';
+
+describe('storage-envelope', () => {
+  const line = { key: '1', id: 1, title: 'Backpack', price: 100, image: 'a.png', quantity: 2 };
+  const now = new Date('2026-03-01T00:00:00Z');
+
+  it('reads back what it wrote', () => {
+    const raw = JSON.stringify(createEnvelope([line], cartItemsSchema(30), now));
+    const result = readEnvelope(raw, cartItemsSchema(30), now);
+    expect(result.status).toBe('ok');
+    expect(result.data![0].title).toBe('Backpack');
+  });
+
+  it('migrates bare legacy values', () => {
+    const result = readEnvelope(JSON.stringify({ code: 'SAVE10', amount: 5 }), DISCOUNT_CODES_SCHEMA, now);
+    expect(result).toEqual({ data: ['SAVE10'], status: 'migrated' });
+  });
+
+  it('expires carts that were not saved for too long', () => {
+    const raw = JSON.stringify(createEnvelope([line], cartItemsSchema(30), new Date('2026-01-01T00:00:00Z')));
+    expect(readEnvelope(raw, cartItemsSchema(30), now).status).toBe('expired');
+  });
+
+  it('drops invalid lines and keeps the rest', () => {
+    const raw = JSON.stringify(createEnvelope([line, { ...line, id: 2, price: 'free' }], cartItemsSchema(), now));
+    const result = readEnvelope(raw, cartItemsSchema(), now);
+    expect(result.status).toBe('recovered');
+    expect(result.data!.length).toBe(1);
+  });
+
+  it('salvages complete lines from a truncated payload', () => {
+    const raw = JSON.stringify(createEnvelope([line, { ...line, id: 2, options: { Size: 'M' } }], cartItemsSchema(), now));
+    const truncated = raw.slice(0, raw.length - 10);
+    expect(extractJsonObjects(truncated).length).toBe(1);
+
+    const result = readEnvelope(truncated, cartItemsSchema(), now);
+    expect(result.status).toBe('recovered');
+    expect(result.data!.map(item => item.id)).toEqual([1]);
+  });
+
+  it('keeps the contents of bundle lines', () => {
+    const bundle = [
+      { productId: 12, title: 'WD 4TB Gaming Drive', image: 'b.png', price: 114, quantity: 1 },
+      { productId: 9, title: 'WD 2TB Elements', image: 'c.png', price: 64, quantity: 2 }
+    ];
+    const raw = JSON.stringify(createEnvelope([{ ...line, key: '102', id: 102, bundle }], cartItemsSchema(), now));
+    const result = readEnvelope(raw, cartItemsSchema(), now);
+
+    expect(result.status).toBe('ok');
+    expect(result.data![0].bundle).toEqual(bundle.map(component => ({ ...component, weight: undefined })));
+  });
+
+  it('drops bundle lines whose contents are damaged', () => {
+    const bundle = [{ productId: 9, title: 'WD 2TB Elements', image: 'c.png', price: 64, quantity: 0 }];
+    const raw = JSON.stringify(createEnvelope([line, { ...line, key: '102', id: 102, bundle }], cartItemsSchema(), now));
+    const result = readEnvelope(raw, cartItemsSchema(), now);
+
+    expect(result.status).toBe('recovered');
+    expect(result.data!.map(item => item.id)).toEqual([1]);
+  });
+
+  it('rejects data written by a newer version', () => {
+    const raw = JSON.stringify({ version: 99, savedAt: now.toISOString(), data: [] });
+    expect(readEnvelope(raw, cartItemsSchema(), now).status).toBe('invalid');
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Storage Envelope Helpers
+ * Pure functions that wrap persisted data in a versioned envelope
+ * and read it back safely: migrating old versions, expiring stale
+ * data and salvaging what is still valid from damaged payloads
+ */
+
+/**
+ * What is actually written to storage
+ */
+export interface StorageEnvelope<T> {
+  version: number;
+  savedAt: string; // ISO date of the last save
+  data: T;
+}
+
+/**
+ * How one storage key is versioned and validated
+ */
+export interface StorageSchema<T> {
+  version: number;
+  // Upgrade functions keyed by the version they upgrade *from*
+  // Version 0 is data written before envelopes existed
+  migrations?: Record<number, (data: unknown) => unknown>;
+  // Returns the valid part of the data and how many entries were dropped, or null if nothing is usable
+  validate: (data: unknown) => { value: T; dropped: number } | null;
+  maxAgeMs?: number; // Data not saved for longer than this is discarded
+  // Pulls whatever entries can still be read out of text that isn't valid JSON
+  recover?: (raw: string) => unknown;
+}
+
+export type EnvelopeStatus = 'empty' | 'ok' | 'migrated' | 'recovered' | 'expired' | 'invalid';
+
+/**
+ * Outcome of reading a storage key
+ */
+export interface EnvelopeResult<T> {
+  data: T | null;
+  status: EnvelopeStatus;
+}
+
+/**
+ * Wrap data for storage
+ * @param data - Data to persist
+ * @param schema - Schema of the key
+ * @param now - Save time (default: now)
+ * @returns Envelope to JSON.stringify
+ */
+export function createEnvelope<T>(data: T, schema: StorageSchema<T>, now: Date = new Date()): StorageEnvelope<T> {
+  return { version: schema.version, savedAt: now.toISOString(), data };
+}
+
+/**
+ * Read stored text back into data
+ * Bare (pre-envelope) values are read as version 0 and migrated.
+ * @param raw - Stored text (null if the key is missing)
+ * @param schema - Schema of the key
+ * @param now - Read time, for expiry (default: now)
+ * @returns The usable data and what had to be done to get it
+ */
+export function readEnvelope<T>(raw: string | null, schema: StorageSchema<T>, now: Date = new Date()): EnvelopeResult<T> {
+  if (raw === null || raw === '') return { data: null, status: 'empty' };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return recoverFromText(raw, schema);
+  }
+
+  const envelope = isEnvelope(parsed) ? parsed : null;
+  let version = envelope ? envelope.version : 0;
+  let data = envelope ? envelope.data : parsed;
+
+  if (version > schema.version) return { data: null, status: 'invalid' };
+
+  if (envelope && schema.maxAgeMs !== undefined) {
+    const savedAt = Date.parse(envelope.savedAt);
+    if (!isNaN(savedAt) && now.getTime() - savedAt > schema.maxAgeMs) {
+      return { data: null, status: 'expired' };
+    }
+  }
+
+  const migrated = version < schema.version;
+  while (version < schema.version) {
+    const migrate = schema.migrations?.[version];
+    data = migrate ? migrate(data) : data;
+    version++;
+  }
+
+  const result = schema.validate(data);
+  if (!result) return { data: null, status: 'invalid' };
+
+  return {
+    data: result.value,
+    status: result.dropped > 0 ? 'recovered' : migrated ? 'migrated' : 'ok'
+  };
+}
+
+/**
+ * Find every complete JSON object nested inside an array in some text
+ * Used to salvage list entries from a truncated or damaged payload.
+ * @param raw - Text that may not be valid JSON
+ * @returns Objects that parsed on their own
+ */
+export function extractJsonObjects(raw: string): unknown[] {
+  const objects: unknown[] = [];
+  const containers: string[] = [];
+  let start = -1;      // Where the entry being read begins
+  let startDepth = 0;  // Nesting depth of that entry
+  let inString = false;
+
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      if (char === '{' && start === -1 && containers[containers.length - 1] === '[') {
+        start = i;
+        startDepth = containers.length;
+      }
+      containers.push(char);
+    } else if (char === '}' || char === ']') {
+      containers.pop();
+      if (char === '}' && start !== -1 && containers.length === startDepth) {
+        try {
+          objects.push(JSON.parse(raw.slice(start, i + 1)));
+        } catch {
+          // Skip the damaged entry
+        }
+        start = -1;
+      }
+    }
+  }
+
+  return objects;
+}
+
+function recoverFromText<T>(raw: string, schema: StorageSchema<T>): EnvelopeResult<T> {
+  if (!schema.recover) return { data: null, status: 'invalid' };
+
+  const result = schema.validate(schema.recover(raw));
+  return result && (Array.isArray(result.value) ? result.value.length > 0 : true)
+    ? { data: result.value, status: 'recovered' }
+    : { data: null, status: 'invalid' };
+}
+
+function isEnvelope(value: unknown): value is StorageEnvelope<unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && typeof (value as StorageEnvelope<unknown>).version === 'number'
+    && 'data' in value;
+}
@@ -0,0 +1,139 @@
+/**
+ * Storage Schemas
+ * Versions, migrations and validators for the data the cart and
+ * favourites keep in localStorage (see storage-envelope.ts)
+ */
+
+import { CartItem } from '../core/services/cart.service';
+import { BundleComponent, SelectedOptions } from '../core/model/product';
+import { StorageSchema, extractJsonObjects } from './storage-envelope';
+import { getLineKey } from './cart-helpers';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Cart lines (shopping_cart, saved_for_later)
+ * Invalid lines are dropped; the rest of the cart is kept.
+ * @param maxAgeDays - Discard the list if it wasn't saved for this long
+ */
+export function cartItemsSchema(maxAgeDays?: number): StorageSchema<CartItem[]> {
+  return {
+    version: 1,
+    maxAgeMs: maxAgeDays === undefined ? undefined : maxAgeDays * DAY_MS,
+    validate: data => validateList(data, toCartItem),
+    recover: extractJsonObjects
+  };
+}
+
+/**
+ * Applied discount codes (cart_discount)
+ * v0 stored a single discount object instead of a code list
+ */
+export const DISCOUNT_CODES_SCHEMA: StorageSchema<string[]> = {
+  version: 1,
+  migrations: {
+    0: data => Array.isArray(data) ? data : isRecord(data) && data['code'] ? [data['code']] : []
+  },
+  validate: data => validateList(data, code => typeof code === 'string' && code.trim() ? code : null)
+};
+
+/**
+ * Favourite product ids (user_favorites)
+ */
+export const FAVORITES_SCHEMA: StorageSchema<number[]> = {
+  version: 1,
+  validate: data => validateList(data, id => Number.isInteger(id) && (id as number) > 0 ? id as number : null)
+};
+
+/**
+ * Keep the entries of a list that convert, counting the ones that don't
+ */
+function validateList<T>(data: unknown, convert: (entry: unknown) => T | null): { value: T[]; dropped: number } | null {
+  if (!Array.isArray(data)) return null;
+
+  const value = data.map(convert).filter((entry): entry is T => entry !== null);
+  return { value, dropped: data.length - value.length };
+}
+
+/**
+ * Check one stored cart line and rebuild it with only known fields
+ * Line keys are recomputed, so lines saved before variants get one too.
+ * A bundle line whose contents don't check out is dropped rather than
+ * kept as a plain product.
+ */
+function toCartItem(entry: unknown): CartItem | null {
+  if (!isRecord(entry)) return null;
+
+  const { id, title, price, image, quantity } = entry;
+  if (!Number.isInteger(id) || typeof title !== 'string' || typeof image !== 'string') return null;
+  if (!isAmount(price) || !Number.isInteger(quantity) || (quantity as number) < 1) return null;
+
+  const options = isOptions(entry['options']) ? entry['options'] : undefined;
+  const bundle = entry['bundle'] === undefined ? undefined : toBundle(entry['bundle']);
+  if (bundle === null) return null;
+
+  return {
+    key: getLineKey(id as number, options),
+    id: id as number,
+    title,
+    price: price as number,
+    image,
+    quantity: quantity as number,
+    options,
+    bundle,
+    category: optional(entry['category'], v => typeof v === 'string'),
+    weight: optional(entry['weight'], isAmount),
+    previousPrice: optional(entry['previousPrice'], isAmount),
+    unavailable: optional(entry['unavailable'], v => typeof v === 'boolean'),
+    stock: optional(entry['stock'], isCount),
+    maxPerOrder: optional(entry['maxPerOrder'], isCount),
+    minQuantity: optional(entry['minQuantity'], isCount),
+    quantityStep: optional(entry['quantityStep'], isCount)
+  };
+}
+
+/**
+ * Check stored bundle contents and rebuild each component with only known fields
+ */
+function toBundle(value: unknown): BundleComponent[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+
+  const components = value.map(component => {
+    if (!isRecord(component)) return null;
+
+    const { productId, title, image, price, quantity } = component;
+    if (!Number.isInteger(productId) || typeof title !== 'string' || typeof image !== 'string') return null;
+    if (!isAmount(price) || !Number.isInteger(quantity) || (quantity as number) < 1) return null;
+
+    return {
+      productId: productId as number,
+      title,
+      image,
+      price: price as number,
+      quantity: quantity as number,
+      weight: optional<number>(component['weight'], isAmount)
+    };
+  });
+
+  return components.every(component => component !== null) ? components as BundleComponent[] : null;
+}
+
+function optional<T>(value: unknown, isValid: (value: unknown) => boolean): T | undefined {
+  return value !== undefined && isValid(value) ? value as T : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isAmount(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function isCount(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function isOptions(value: unknown): value is SelectedOptions {
+  return isRecord(value) && Object.values(value).every(v => typeof v === 'string');
+}
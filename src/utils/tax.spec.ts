@@ -0,0 +1,34 @@
+import { TaxRegion } from '../core/model/tax';
+import { calculateTaxLines, findTaxRegion } from './tax';
+
+describe('tax', () => {
+  const regions: TaxRegion[] = [
+    { id: 'city', name: 'City', country: 'EG', cities: ['port said'], pricesIncludeTax: false, rules: [{ label: 'Duty', rate: 0.05 }] },
+    { id: 'eg', name: 'Egypt', country: 'EG', pricesIncludeTax: false, rules: [
+      { label: 'VAT', rate: 0.14 },
+      { label: 'Stamp', rate: 0.02, categories: ['jewelery'] }
+    ] },
+    { id: 'de', name: 'Germany', country: 'DE', pricesIncludeTax: true, rules: [{ label: 'MwSt.', rate: 0.19 }] },
+    { id: 'default', name: 'Default', country: '*', pricesIncludeTax: false, rules: [{ label: 'Tax', rate: 0.1 }] }
+  ];
+
+  it('prefers city regions, then country, then the fallback', () => {
+    expect(findTaxRegion({ country: 'EG', city: 'Port Said ' }, regions).id).toBe('city');
+    expect(findTaxRegion({ country: 'eg', city: 'Cairo' }, regions).id).toBe('eg');
+    expect(findTaxRegion({ country: 'FR' }, regions).id).toBe('default');
+  });
+
+  it('itemises category rates separately', () => {
+    const lines = calculateTaxLines([{ amount: 100 }, { category: 'jewelery', amount: 50 }], regions[1]);
+
+    expect(lines.map(l => [l.taxableAmount, l.amount])).toEqual([[150, 21], [50, 1]]);
+  });
+
+  it('extracts tax from inclusive prices', () => {
+    const [line] = calculateTaxLines([{ amount: 119 }], regions[2]);
+
+    expect(line.inclusive).toBeTrue();
+    expect(line.taxableAmount).toBe(100);
+    expect(line.amount).toBe(19);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Tax Helpers
+ * Pure functions that pick the tax region for a destination
+ * and itemise the taxes due on a set of cart lines
+ */
+
+import { Destination } from '../core/model/destination';
+import { TaxLine, TaxRegion, TaxRule } from '../core/model/tax';
+import { TAX_REGIONS } from '../core/data/tax-regions';
+import { Money, ZERO, addMoney, allocateMoney, multiplyMoney, subtractMoney, toMajor, toMoney } from './money';
+
+/**
+ * A line to be taxed
+ */
+export interface TaxableLine {
+  category?: string;
+  amount: number; // Line amount after discounts
+}
+
+/**
+ * Find the tax region for a destination
+ * City-specific regions win over country-wide ones; '*' is the fallback
+ * @param destination - Shipping country and city
+ * @param regions - Region table (default: TAX_REGIONS)
+ * @returns Matching tax region
+ */
+export function findTaxRegion(destination: Destination, regions: TaxRegion[] = TAX_REGIONS): TaxRegion {
+  const country = destination.country.toUpperCase();
+  const city = destination.city?.trim().toLowerCase();
+
+  return (
+    regions.find(r => r.country === country && r.cities?.includes(city ?? '')) ??
+    regions.find(r => r.country === country && !r.cities) ??
+    regions.find(r => r.country === '*')!
+  );
+}
+
+/**
+ * Itemise the taxes due on some lines
+ * Rules of the same label and rate are combined into one tax line.
+ * For tax-inclusive regions the tax is extracted from the line amount
+ * instead of added to it, and split across the rules by rate so the
+ * extracted cents always add back up to the line amount.
+ * @param lines - Lines to tax (amounts after discounts)
+ * @param region - Tax region
+ * @returns One tax line per rule that applied
+ */
+export function calculateTaxLines(lines: TaxableLine[], region: TaxRegion): TaxLine[] {
+  const totals = new Map<TaxRule, { taxable: Money; tax: Money }>();
+
+  lines.forEach(line => {
+    const rules = region.rules.filter(rule => appliesTo(rule, line.category));
+    const combinedRate = rules.reduce((sum, rule) => sum + rule.rate, 0);
+    const gross = toMoney(line.amount);
+    const extracted = region.pricesIncludeTax
+      ? allocateMoney(multiplyMoney(gross, combinedRate / (1 + combinedRate)), rules.map(rule => rule.rate))
+      : [];
+    const net = subtractMoney(gross, addMoney(...extracted));
+
+    rules.forEach((rule, index) => {
+      const total = totals.get(rule) ?? { taxable: ZERO, tax: ZERO };
+      total.taxable = addMoney(total.taxable, net);
+      if (region.pricesIncludeTax) total.tax = addMoney(total.tax, extracted[index]);
+      totals.set(rule, total);
+    });
+  });
+
+  return Array.from(totals.entries())
+    .filter(([, total]) => total.taxable > 0)
+    .map(([rule, total]) => ({
+      label: `${rule.label} (${formatRate(rule.rate)})`,
+      rate: rule.rate,
+      taxableAmount: toMajor(total.taxable),
+      // Exclusive taxes are rounded once per tax line, on the combined taxable amount
+      amount: toMajor(region.pricesIncludeTax ? total.tax : multiplyMoney(total.taxable, rule.rate)),
+      inclusive: region.pricesIncludeTax
+    }));
+}
+
+/**
+ * Total of a set of tax lines
+ * @param taxLines - Tax lines
+ * @returns Total tax
+ */
+export function sumTaxLines(taxLines: TaxLine[]): number {
+  return toMajor(addMoney(...taxLines.map(line => toMoney(line.amount))));
+}
+
+/**
+ * Format a decimal rate for display
+ * @param rate - Decimal rate (0.14)
+ * @returns Percentage text ("14%")
+ */
+export function formatRate(rate: number): string {
+  return `${Math.round(rate * 10000) / 100}%`;
+}
+
+function appliesTo(rule: TaxRule, category?: string): boolean {
+  if (!rule.categories?.length) return true;
+  return !!category && rule.categories.includes(category.toLowerCase());
+}